@@ -1,6 +1,7 @@
 import { Suspense } from "react";
 import { Routes, Route, Navigate } from "react-router-dom";
 import TravelRecapApp from "./components/travel-recap/TravelRecapApp";
+import RecapViewer from "./components/travel-recap/RecapViewer";
 
 function App() {
   return (
@@ -9,6 +10,8 @@ function App() {
         <Routes>
           <Route path="/" element={<TravelRecapApp />} />
           <Route path="/travel-recap" element={<Navigate to="/" replace />} />
+          <Route path="/r/:recapId" element={<RecapViewer source="published" />} />
+          <Route path="/view" element={<RecapViewer source="link" />} />
         </Routes>
       </>
     </Suspense>
@@ -0,0 +1,318 @@
+import { useState, useMemo, useEffect, useRef } from "react";
+import { motion } from "framer-motion";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { TravelImage, COUNTRIES } from "./types";
+import { ArrowLeft, ArrowRight, Globe, Building2, Check, ChevronDown, Search, Eraser, Tags } from "lucide-react";
+
+type TaggedLocation = NonNullable<TravelImage['location']>;
+
+interface BulkTagGridProps {
+  images: TravelImage[];
+  onApply: (imageIds: string[], location: TaggedLocation | undefined) => void;
+  onClose: () => void;
+  onDone: () => void;
+}
+
+export default function BulkTagGrid({ images, onApply, onClose, onDone }: BulkTagGridProps) {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [locationType, setLocationType] = useState<'country' | 'city'>('city');
+  const [cityName, setCityName] = useState("");
+  const [selectedCountry, setSelectedCountry] = useState("");
+  const [countrySearch, setCountrySearch] = useState("");
+  const [showCountryDropdown, setShowCountryDropdown] = useState(false);
+
+  // Anchor for shift-click ranges, and drag state for click-and-drag selection
+  const anchorIndex = useRef<number | null>(null);
+  const dragMode = useRef<'select' | 'deselect' | null>(null);
+
+  useEffect(() => {
+    const endDrag = () => { dragMode.current = null; };
+    window.addEventListener('pointerup', endDrag);
+    window.addEventListener('pointercancel', endDrag);
+    return () => {
+      window.removeEventListener('pointerup', endDrag);
+      window.removeEventListener('pointercancel', endDrag);
+    };
+  }, []);
+
+  const filteredCountries = useMemo(() => {
+    if (!countrySearch) return COUNTRIES;
+    return COUNTRIES.filter(c =>
+      c.toLowerCase().includes(countrySearch.toLowerCase())
+    );
+  }, [countrySearch]);
+
+  const untaggedIds = images.filter(img => !img.location).map(img => img.id);
+  const taggedCount = images.length - untaggedIds.length;
+  const isFormValid = locationType === 'country' ? !!selectedCountry : !!cityName.trim() && !!selectedCountry;
+
+  const setSelected = (ids: string[], selected: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      ids.forEach(id => selected ? next.add(id) : next.delete(id));
+      return next;
+    });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent, index: number) => {
+    const id = images[index].id;
+
+    if (e.shiftKey && anchorIndex.current !== null) {
+      const [from, to] = [Math.min(anchorIndex.current, index), Math.max(anchorIndex.current, index)];
+      setSelected(images.slice(from, to + 1).map(img => img.id), true);
+      return;
+    }
+
+    const select = !selectedIds.has(id);
+    dragMode.current = select ? 'select' : 'deselect';
+    anchorIndex.current = index;
+    setSelected([id], select);
+  };
+
+  const handlePointerEnter = (index: number) => {
+    if (!dragMode.current) return;
+    setSelected([images[index].id], dragMode.current === 'select');
+  };
+
+  const buildLocation = (): TaggedLocation => ({
+    type: locationType,
+    name: locationType === 'city' ? cityName.trim() : selectedCountry,
+    country: selectedCountry
+  });
+
+  const applyToSelected = () => {
+    if (!isFormValid || selectedIds.size === 0) return;
+    onApply([...selectedIds], buildLocation());
+    setSelectedIds(new Set());
+  };
+
+  const applyToUntagged = () => {
+    if (!isFormValid || untaggedIds.length === 0) return;
+    onApply(untaggedIds, buildLocation());
+  };
+
+  const clearSelectedTags = () => {
+    if (selectedIds.size === 0) return;
+    onApply([...selectedIds], undefined);
+  };
+
+  return (
+    <div className="min-h-screen bg-[#0B0101] flex flex-col">
+      {/* Header */}
+      <motion.div
+        className="sticky top-0 bg-[#0B0101] border-b border-[#233038] p-4 flex items-center justify-between z-10"
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.4 }}
+      >
+        <motion.button
+          onClick={onClose}
+          className="p-2 hover:bg-[#233038] rounded-full transition-colors"
+          whileHover={{ scale: 1.1 }}
+          whileTap={{ scale: 0.9 }}
+        >
+          <ArrowLeft className="w-6 h-6 text-[#D3DBDD]" />
+        </motion.button>
+        <p className="text-[#D3DBDD] text-sm">
+          {taggedCount} of {images.length} tagged • {selectedIds.size} selected
+        </p>
+        <div className="flex gap-3 text-sm">
+          <button
+            onClick={() => setSelectedIds(new Set(images.map(img => img.id)))}
+            className="text-[#D3DBDD] hover:text-[#FF5B04] transition-colors"
+          >
+            All
+          </button>
+          <button
+            onClick={() => setSelectedIds(new Set())}
+            className="text-[#D3DBDD] hover:text-[#FF5B04] transition-colors"
+          >
+            None
+          </button>
+        </div>
+      </motion.div>
+
+      <div className="flex-1 flex flex-col md:flex-row">
+        {/* Image grid */}
+        <div className="flex-1 p-4 overflow-y-auto">
+          <p className="text-[#D3DBDD] text-xs mb-3">
+            Click to select, shift-click for a range, or drag across photos
+          </p>
+          <div className="grid grid-cols-3 sm:grid-cols-4 lg:grid-cols-6 gap-2 select-none">
+            {images.map((image, index) => {
+              const isSelected = selectedIds.has(image.id);
+              return (
+                <div
+                  key={image.id}
+                  onPointerDown={(e) => handlePointerDown(e, index)}
+                  onPointerEnter={() => handlePointerEnter(index)}
+                  className={`relative aspect-square rounded-xl overflow-hidden border-4 cursor-pointer transition-colors ${
+                    isSelected ? 'border-[#FF5B04]' : 'border-[#233038]'
+                  }`}
+                >
+                  <img
+                    src={image.thumbnail ?? image.preview}
+                    alt="Travel memory"
+                    className="w-full h-full object-cover pointer-events-none"
+                    draggable={false}
+                  />
+                  {isSelected && (
+                    <div className="absolute top-1 right-1 w-6 h-6 bg-[#FF5B04] rounded-full flex items-center justify-center">
+                      <Check className="w-4 h-4 text-white" />
+                    </div>
+                  )}
+                  <div className="absolute bottom-0 left-0 right-0 p-1.5 bg-[#0B0101]/80">
+                    {image.location ? (
+                      <p className="text-[#F4D47C] text-[10px] truncate">
+                        {image.location.type === 'city'
+                          ? `${image.location.name}, ${image.location.country}`
+                          : image.location.country}
+                      </p>
+                    ) : (
+                      <p className="text-[#D3DBDD] text-[10px]">Not tagged</p>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        {/* Side panel */}
+        <div className="md:w-80 bg-[#233038] border-t md:border-t-0 md:border-l border-[#075056] p-4 space-y-3">
+          <h3 className="text-[#FDF6E3] font-bold flex items-center gap-2">
+            <Tags className="w-5 h-5 text-[#F4D47C]" />
+            Tag selected photos
+          </h3>
+
+          {/* Type toggle */}
+          <div className="flex gap-2 bg-[#0B0101] rounded-lg p-1">
+            <button
+              onClick={() => setLocationType('city')}
+              className={`flex-1 py-2 rounded-md font-medium transition-all flex items-center justify-center gap-2 ${
+                locationType === 'city' ? 'bg-[#FF5B04] text-white' : 'text-[#D3DBDD]'
+              }`}
+            >
+              <Building2 className="w-4 h-4" />
+              City
+            </button>
+            <button
+              onClick={() => setLocationType('country')}
+              className={`flex-1 py-2 rounded-md font-medium transition-all flex items-center justify-center gap-2 ${
+                locationType === 'country' ? 'bg-[#FF5B04] text-white' : 'text-[#D3DBDD]'
+              }`}
+            >
+              <Globe className="w-4 h-4" />
+              Country
+            </button>
+          </div>
+
+          {locationType === 'city' && (
+            <Input
+              type="text"
+              placeholder="City name"
+              value={cityName}
+              onChange={(e) => setCityName(e.target.value)}
+              className="w-full bg-[#0B0101] border border-[#075056] text-[#FDF6E3] px-4 py-3 rounded-lg focus:border-[#FF5B04] focus:outline-none placeholder:text-[#D3DBDD]"
+            />
+          )}
+
+          {/* Country dropdown */}
+          <div className="relative w-full">
+            <button
+              onClick={() => setShowCountryDropdown(!showCountryDropdown)}
+              className="w-full px-4 py-3 rounded-lg border border-[#075056] bg-[#0B0101] flex items-center justify-between text-left hover:border-[#FF5B04] transition-colors"
+            >
+              <span className={`truncate ${selectedCountry ? 'text-[#FDF6E3]' : 'text-[#D3DBDD]'}`}>
+                {selectedCountry || 'Select country'}
+              </span>
+              <ChevronDown className={`w-4 h-4 text-[#D3DBDD] transition-transform flex-shrink-0 ${showCountryDropdown ? 'rotate-180' : ''}`} />
+            </button>
+
+            {showCountryDropdown && (
+              <div className="absolute z-20 top-full left-0 right-0 mt-1 bg-[#233038] rounded-xl border border-[#075056] shadow-lg max-h-60 overflow-hidden">
+                <div className="p-2 border-b border-[#075056]">
+                  <div className="relative">
+                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-[#D3DBDD]" />
+                    <Input
+                      value={countrySearch}
+                      onChange={(e) => setCountrySearch(e.target.value)}
+                      placeholder="Search..."
+                      className="h-10 pl-9 rounded-lg bg-[#0B0101] border-[#075056] text-[#FDF6E3] placeholder:text-[#D3DBDD] focus:border-[#FF5B04]"
+                      autoFocus
+                    />
+                  </div>
+                </div>
+                <div className="max-h-40 overflow-y-auto">
+                  {filteredCountries.map(country => (
+                    <button
+                      key={country}
+                      onClick={() => {
+                        setSelectedCountry(country);
+                        setShowCountryDropdown(false);
+                        setCountrySearch("");
+                      }}
+                      className={`w-full px-4 py-2.5 text-left hover:bg-[#075056] flex items-center gap-2 transition-colors ${
+                        selectedCountry === country ? 'bg-[#FF5B04] text-white' : 'text-[#FDF6E3]'
+                      }`}
+                    >
+                      {selectedCountry === country && <Check className="w-4 h-4" />}
+                      {country}
+                    </button>
+                  ))}
+                  {filteredCountries.length === 0 && (
+                    <div className="px-4 py-3 text-[#D3DBDD] text-center">No countries found</div>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+
+          <button
+            onClick={applyToSelected}
+            disabled={!isFormValid || selectedIds.size === 0}
+            className="w-full bg-[#2563EB] hover:bg-[#1E40AF] disabled:bg-[#0B0101] disabled:text-[#D3DBDD] text-white font-bold py-3 rounded-xl flex items-center justify-center gap-2 transition-all"
+          >
+            <Check className="w-5 h-5" />
+            Apply to {selectedIds.size} selected
+          </button>
+          <button
+            onClick={applyToUntagged}
+            disabled={!isFormValid || untaggedIds.length === 0}
+            className="w-full bg-transparent border-2 border-[#D3DBDD] text-[#D3DBDD] hover:border-[#FF5B04] hover:text-[#FF5B04] disabled:opacity-50 disabled:hover:border-[#D3DBDD] disabled:hover:text-[#D3DBDD] py-3 rounded-xl font-semibold transition-all"
+          >
+            Apply to all untagged ({untaggedIds.length})
+          </button>
+          <button
+            onClick={clearSelectedTags}
+            disabled={selectedIds.size === 0}
+            className="w-full text-[#D3DBDD] hover:text-[#FF5B04] disabled:opacity-50 py-2 text-sm flex items-center justify-center gap-2 transition-colors"
+          >
+            <Eraser className="w-4 h-4" />
+            Clear tags on selected
+          </button>
+        </div>
+      </div>
+
+      {/* Footer */}
+      <motion.div
+        className="sticky bottom-0 p-4 bg-[#233038] border-t border-[#075056]"
+        initial={{ opacity: 0, y: 50 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.2, duration: 0.4 }}
+      >
+        <div className="max-w-lg mx-auto">
+          <Button
+            onClick={onDone}
+            disabled={taggedCount === 0}
+            className="w-full h-12 rounded-full bg-[#FF5B04] hover:bg-[#E54F03] text-white font-medium disabled:bg-[#0B0101] disabled:text-[#D3DBDD] transition-colors"
+          >
+            Generate My Recap
+            <ArrowRight className="w-5 h-5 ml-2" />
+          </Button>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
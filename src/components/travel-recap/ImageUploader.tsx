@@ -1,22 +1,54 @@
-import { useState, useRef, useCallback, useEffect } from "react";
+import { useState, useRef, useCallback, useEffect, useMemo } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { Button } from "@/components/ui/button";
-import { TravelImage } from "./types";
-import { ArrowLeft, ArrowRight, Plus, X, Upload, Image as ImageIcon, Loader2, MapPin } from "lucide-react";
-import exifr from "exifr";
+import { HomeBase, RecapPeriod, TravelImage } from "./types";
+import { ArrowLeft, ArrowRight, Plus, X, Upload, Image as ImageIcon, Loader2, MapPin, CalendarX, Home, Play, Copy } from "lucide-react";
+import { reverseGeocoder } from "@/lib/geocoding";
+import { getPeriodText, isInPeriod } from "@/lib/recap-period";
+import { inferHomeBase, isAtHome } from "@/lib/home-base";
+import { convertHeicToJpeg, isHeicFile } from "@/lib/heic";
+import { captureVideoPoster, readVideoMetadata } from "@/lib/video";
+import { readPhotos } from "@/lib/photo-processing";
+import { createRenditions, mediaCache } from "@/lib/media-cache";
+import { computeImageHash, DuplicateGroup, findDuplicateGroups, pickBestImage } from "@/lib/duplicates";
+import { scorePhoto } from "@/lib/photo-quality";
 import { fadeInUp, scaleInBounce, staggerContainer, popIn } from "@/utils/animations";
 
 interface ImageUploaderProps {
   onNext: (images: TravelImage[]) => void;
-  onBack: () => void;
+  // Hands back the current photos, since removing one revokes its URLs
+  onBack: (images: TravelImage[]) => void;
   initialImages?: TravelImage[];
+  period: RecapPeriod;
+  home?: HomeBase;
+  // Preview the home base that will be inferred from these photos
+  detectHome?: boolean;
 }
 
-export default function ImageUploader({ onNext, onBack, initialImages }: ImageUploaderProps) {
+interface ProcessingProgress {
+  current: number;
+  total: number;
+  kind: 'photo' | 'heic' | 'video'; // HEIC decoding and poster frames take a moment
+}
+
+const PROCESSING_LABELS: Record<ProcessingProgress['kind'], string> = {
+  photo: 'Reading photos...',
+  heic: 'Converting HEIC photo...',
+  video: 'Reading video...'
+};
+
+const formatClipLength = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+export default function ImageUploader({ onNext, onBack, initialImages, period, home, detectHome }: ImageUploaderProps) {
   const [images, setImages] = useState<TravelImage[]>(initialImages || []);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [processingProgress, setProcessingProgress] = useState<ProcessingProgress | null>(null);
   const [progressWidth, setProgressWidth] = useState(0);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
   useEffect(() => {
     // Animate progress bar on mount
@@ -24,84 +56,38 @@ export default function ImageUploader({ onNext, onBack, initialImages }: ImageUp
     return () => clearTimeout(timer);
   }, []);
 
-  const extractExifData = async (file: File): Promise<{ geoTag?: TravelImage['geoTag']; timestamp?: number }> => {
+  // Stop the workers if the user navigates away mid-upload
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // Coordinates plus a suggested place, resolved locally from the bundled gazetteer
+  const createGeoTag = async (lat: number, lng: number): Promise<TravelImage['geoTag']> => {
+    const geoTag: TravelImage['geoTag'] = { lat, lng };
+    const place = await reverseGeocoder.reverse(lat, lng);
+    if (place?.city || place?.country) {
+      geoTag.suggestedCity = place.city;
+      geoTag.suggestedCountry = place.country;
+      console.log(`✓ Location: ${place.city}, ${place.country}`);
+    }
+    return geoTag;
+  };
+
+  // Videos keep their capture time and GPS in QuickTime atoms rather than EXIF
+  const extractVideoData = async (file: File): Promise<{ geoTag?: TravelImage['geoTag']; timestamp?: number }> => {
     let geoTag: TravelImage['geoTag'] | undefined;
     let timestamp: number | undefined;
 
     try {
-      console.log(`Extracting EXIF from ${file.name}...`);
-      
-      // Parse EXIF - let exifr handle GPS conversion automatically
-      const exifData = await exifr.parse(file, {
-        gps: true
-        // Don't use 'pick' - it blocks GPS extraction
-      });
-
-      console.log(`EXIF data for ${file.name}:`, exifData);
-
-      // Extract timestamp - handle both string and Date object
-      if (exifData?.DateTimeOriginal || exifData?.CreateDate) {
-        const dateVal = exifData.DateTimeOriginal || exifData.CreateDate;
-        timestamp = dateVal instanceof Date ? dateVal.getTime() : new Date(dateVal).getTime();
-        console.log(`✓ Timestamp found: ${new Date(timestamp).toISOString()}`);
-      }
-
-      // Extract GPS data
-      if (exifData?.latitude && exifData?.longitude) {
-        console.log(`✓ GPS found: ${exifData.latitude}, ${exifData.longitude}`);
-        
-        // Initialize geoTag with coordinates
-        geoTag = {
-          lat: exifData.latitude,
-          lng: exifData.longitude
-        };
-        
-        // Try to reverse geocode with higher zoom for better city detection
-        try {
-          const response = await fetch(
-            `https://nominatim.openstreetmap.org/reverse?format=json&lat=${exifData.latitude}&lon=${exifData.longitude}&zoom=14&addressdetails=1`,
-            {
-              headers: {
-                'User-Agent': 'TravelRecapApp/1.0'
-              }
-            }
-          );
-          const data = await response.json();
-          
-          console.log(`Geocoded ${file.name}:`, data);
-          
-          // Extract city from various possible fields
-          const suggestedCity = data.address?.city || 
-                               data.address?.town || 
-                               data.address?.village || 
-                               data.address?.locality ||
-                               data.address?.municipality ||
-                               data.address?.suburb ||
-                               data.address?.district;
-          
-          const suggestedCountry = data.address?.country;
-          
-          if (suggestedCity || suggestedCountry) {
-            geoTag.suggestedCity = suggestedCity || undefined;
-            geoTag.suggestedCountry = suggestedCountry || undefined;
-            console.log(`✓ Location: ${suggestedCity}, ${suggestedCountry}`);
-          }
-        } catch (geoError) {
-          console.error(`Geocoding failed for ${file.name}:`, geoError);
-        }
-      } else {
-        console.log(`✗ No GPS data in ${file.name}`);
+      const metadata = await readVideoMetadata(file);
+      console.log(`Video metadata for ${file.name}:`, metadata);
+      timestamp = metadata.timestamp;
+      if (metadata.location) {
+        geoTag = await createGeoTag(metadata.location.lat, metadata.location.lng);
       }
-    } catch (exifError) {
-      console.error(`EXIF extraction failed for ${file.name}:`, exifError);
-    }
-
-    // Fallback to file lastModified if no EXIF timestamp
-    if (!timestamp) {
-      timestamp = file.lastModified;
+    } catch (videoError) {
+      console.error(`Video metadata extraction failed for ${file.name}:`, videoError);
     }
 
-    return { geoTag, timestamp };
+    return { geoTag, timestamp: timestamp ?? file.lastModified };
   };
 
   const handleFilesSelected = useCallback(async (files: FileList) => {
@@ -110,37 +96,115 @@ export default function ImageUploader({ onNext, onBack, initialImages }: ImageUp
     
     if (files.length === 0) return;
     
+    const controller = new AbortController();
+    abortRef.current = controller;
     setIsProcessing(true);
+    const newImages: TravelImage[] = [];
     
     try {
-      const newImages: TravelImage[] = [];
+      let failedHeicCount = 0;
+      let failedVideoCount = 0;
       
       // Convert FileList to Array for reliable iteration
-      const fileArray = Array.from(files);
-      console.log(`Processing ${fileArray.length} files...`);
+      const fileArray = Array.from(files).filter(file => {
+        const supported = file.type.startsWith('image/') || file.type.startsWith('video/') || isHeicFile(file);
+        if (!supported) console.log(`  -> Skipped (not an image or video): ${file.name} ${file.type}`);
+        return supported;
+      });
+      const isVideoFile = (file: File) => file.type.startsWith('video/');
+      const photoFiles = fileArray.filter(file => !isVideoFile(file));
+      const heicTotal = photoFiles.filter(isHeicFile).length;
+      const videoTotal = fileArray.length - photoFiles.length;
+      console.log(`Processing ${photoFiles.length} photos and ${videoTotal} videos...`);
       
-      for (let i = 0; i < fileArray.length; i++) {
-        const file = fileArray[i];
-        console.log(`Processing file ${i + 1}/${fileArray.length}: ${file.name}`);
+      // EXIF and downscaled copies for all photos at once, in workers off the main thread
+      if (photoFiles.length > 0) {
+        setProcessingProgress({ current: 0, total: photoFiles.length, kind: 'photo' });
+      }
+      const readings = await readPhotos(photoFiles, {
+        signal: controller.signal,
+        onProgress: (done, total) => setProcessingProgress({ current: done, total, kind: 'photo' })
+      });
+      const readingByFile = new Map(photoFiles.map((file, i) => [file, readings[i]]));
+      
+      // HEIC decoding and video posters need the page's decoders, so they run here one at a time
+      let heicDone = 0;
+      let videoDone = 0;
+      for (const file of fileArray) {
+        controller.signal.throwIfAborted();
         
-        if (!file.type.startsWith('image/')) {
-          console.log(`  -> Skipped (not an image): ${file.type}`);
+        if (isVideoFile(file)) {
+          setProcessingProgress({ current: ++videoDone, total: videoTotal, kind: 'video' });
+          let poster: Blob;
+          let durationMs: number;
+          try {
+            ({ poster, durationMs } = await captureVideoPoster(file, { signal: controller.signal }));
+          } catch (videoError) {
+            // Cancelling isn't a failed video; a timeout is
+            controller.signal.throwIfAborted();
+            console.error(`Couldn't read video ${file.name}:`, videoError);
+            failedVideoCount++;
+            continue;
+          }
+          const { geoTag, timestamp } = await extractVideoData(file);
+          
+          newImages.push({
+            id: crypto.randomUUID(),
+            file,
+            preview: URL.createObjectURL(poster),
+            video: { poster, durationMs, src: URL.createObjectURL(file) },
+            hash: await computeImageHash(poster).catch(() => undefined),
+            geoTag,
+            timestamp,
+            order: images.length + newImages.length + 1
+          });
+          
+          console.log(`  -> Added video ${newImages.length}, has geoTag: ${!!geoTag}`);
           continue;
         }
         
-        const preview = URL.createObjectURL(file);
-        const { geoTag, timestamp } = await extractExifData(file);
+        // EXIF was read from the original, so converted HEIC photos keep it
+        const reading = readingByFile.get(file);
+        const geoTag = reading?.gps ? await createGeoTag(reading.gps.lat, reading.gps.lng) : undefined;
+        // Fallback to file lastModified if no EXIF timestamp
+        const timestamp = reading?.timestamp ?? file.lastModified;
+        
+        let displayFile = file;
+        let renditions = reading?.renditions;
+        if (isHeicFile(file)) {
+          setProcessingProgress({ current: ++heicDone, total: heicTotal, kind: 'heic' });
+          try {
+            displayFile = await convertHeicToJpeg(file);
+            console.log(`  -> Converted HEIC to JPEG: ${displayFile.name}`);
+          } catch (heicError) {
+            console.error(`HEIC conversion failed for ${file.name}:`, heicError);
+            failedHeicCount++;
+            continue;
+          }
+        }
+        // Workers can't decode HEIC, so converted photos get their copies here
+        if (!renditions) {
+          try {
+            renditions = await createRenditions(displayFile);
+          } catch (renditionError) {
+            console.log(`  -> No renditions for ${file.name}, using the original:`, renditionError);
+          }
+        }
+        const hash = reading?.hash ?? (renditions && await computeImageHash(renditions.thumb).catch(() => undefined));
+        const quality = reading?.quality ?? (renditions && await scorePhoto(renditions.thumb, renditions).catch(() => undefined));
         
         newImages.push({
           id: crypto.randomUUID(),
-          file,
-          preview,
+          file: displayFile,
+          preview: URL.createObjectURL(renditions?.slide ?? displayFile),
+          thumbnail: renditions && URL.createObjectURL(renditions.thumb),
+          renditions,
+          hash,
+          quality,
           geoTag,
           timestamp,
           order: images.length + newImages.length + 1
         });
-        
-        console.log(`  -> Added image ${newImages.length}, has geoTag: ${!!geoTag}`);
       }
       
       console.log(`Total new images to add: ${newImages.length}`);
@@ -153,19 +217,82 @@ export default function ImageUploader({ onNext, onBack, initialImages }: ImageUp
           return updated;
         });
       }
+      
+      if (failedHeicCount > 0) {
+        alert(`${failedHeicCount} HEIC ${failedHeicCount === 1 ? 'photo' : 'photos'} couldn't be converted and ${failedHeicCount === 1 ? 'was' : 'were'} skipped. Try exporting ${failedHeicCount === 1 ? 'it' : 'them'} as JPEG.`);
+      }
+      if (failedVideoCount > 0) {
+        alert(`${failedVideoCount} ${failedVideoCount === 1 ? 'video' : 'videos'} couldn't be played in this browser and ${failedVideoCount === 1 ? 'was' : 'were'} skipped. Try exporting ${failedVideoCount === 1 ? 'it' : 'them'} as MP4 (H.264).`);
+      }
+    } catch (err) {
+      // Cancelling drops the whole batch
+      newImages.forEach(img => mediaCache.release(img));
+      if (!(err instanceof DOMException && err.name === 'AbortError')) {
+        console.error('Failed to process photos:', err);
+        alert('Sorry, your photos could not be processed. Please try again.');
+      }
     } finally {
+      abortRef.current = null;
       setIsProcessing(false);
+      setProcessingProgress(null);
     }
   }, [images.length]);
 
+  const cancelProcessing = () => {
+    abortRef.current?.abort();
+  };
+
   const removeImage = (id: string) => {
+    const removed = images.find(img => img.id === id);
+    if (removed) mediaCache.release(removed);
     setImages(prev => {
       const filtered = prev.filter(img => img.id !== id);
-      return filtered.map((img, i) => ({ ...img, order: i + 1 }));
+      // Copies set aside for this photo come back
+      return filtered.map((img, i) => ({
+        ...img,
+        order: i + 1,
+        duplicateOf: img.duplicateOf === id ? undefined : img.duplicateOf
+      }));
     });
   };
 
+  // Duplicates stay uploaded but are left out of destinations
+  const keepBestOfGroup = (group: DuplicateGroup) => {
+    const best = pickBestImage(images.filter(img => group.ids.includes(img.id)));
+    setImages(prev => prev.map(img =>
+      group.ids.includes(img.id) && img.id !== best.id ? { ...img, duplicateOf: best.id } : img
+    ));
+  };
+
+  const keepAllOfGroup = (group: DuplicateGroup) => {
+    setImages(prev => prev.map(img => group.ids.includes(img.id) ? { ...img, keepDuplicates: true } : img));
+  };
+
+  // The photo it was set aside for is marked too, or the pair would be
+  // flagged again straight away
+  const restoreDuplicate = (id: string) => {
+    const keptId = images.find(img => img.id === id)?.duplicateOf;
+    setImages(prev => prev.map(img => {
+      if (img.id === id) return { ...img, duplicateOf: undefined, keepDuplicates: true };
+      return img.id === keptId ? { ...img, keepDuplicates: true } : img;
+    }));
+  };
+
   const taggedCount = images.filter(img => img.location).length;
+  const periodLabel = getPeriodText(period).label;
+  const outsidePeriodCount = images.filter(img => !isInPeriod(img.timestamp, period)).length;
+  const homeBase = useMemo(
+    () => home ?? (detectHome ? inferHomeBase(images) ?? undefined : undefined),
+    [home, detectHome, images]
+  );
+  // In-period photos taken at home; they're kept but not counted as travel
+  const isHomePhoto = (img: TravelImage) => isInPeriod(img.timestamp, period) && isAtHome(img, homeBase);
+  const atHomeCount = images.filter(isHomePhoto).length;
+  // Matches what TravelRecapApp clusters for tagging
+  const tripPhotoCount = images.filter(img => isInPeriod(img.timestamp, period) && !isHomePhoto(img) && !img.duplicateOf).length;
+  const duplicateGroups = useMemo(() => findDuplicateGroups(images), [images]);
+  const duplicateCount = images.filter(img => img.duplicateOf).length;
+  const imageById = new Map(images.map(img => [img.id, img]));
 
   return (
     <div className="min-h-screen bg-[#0B0101] flex flex-col">
@@ -173,7 +300,7 @@ export default function ImageUploader({ onNext, onBack, initialImages }: ImageUp
       <input
         ref={fileInputRef}
         type="file"
-        accept="image/*"
+        accept="image/*,video/*,.heic,.heif"
         multiple
         className="hidden"
         onChange={(e) => {
@@ -192,7 +319,7 @@ export default function ImageUploader({ onNext, onBack, initialImages }: ImageUp
         transition={{ duration: 0.4 }}
       >
         <motion.button 
-          onClick={onBack}
+          onClick={() => onBack(images)}
           className="p-2 hover:bg-[#233038] rounded-full transition-colors"
           whileHover={{ scale: 1.1 }}
           whileTap={{ scale: 0.9 }}
@@ -239,7 +366,7 @@ export default function ImageUploader({ onNext, onBack, initialImages }: ImageUp
             animate={{ opacity: 1, y: 0 }}
             transition={{ delay: 0.5, duration: 0.5 }}
           >
-            Add photos from your travels and we'll help you tag them
+            Add photos and videos from your travels and we'll help you tag them
           </motion.p>
 
           {/* Progress indicator */}
@@ -255,6 +382,21 @@ export default function ImageUploader({ onNext, onBack, initialImages }: ImageUp
                 <p className="text-sm text-[#F4D47C]">
                   {taggedCount} of {images.length} images tagged
                 </p>
+                {outsidePeriodCount > 0 && (
+                  <p className="text-xs text-[#D3DBDD] mt-1">
+                    {outsidePeriodCount} {outsidePeriodCount === 1 ? 'photo was' : 'photos were'} taken outside {periodLabel} and won't be included
+                  </p>
+                )}
+                {homeBase && atHomeCount > 0 && (
+                  <p className="text-xs text-[#D3DBDD] mt-1">
+                    {atHomeCount} {atHomeCount === 1 ? 'photo was' : 'photos were'} taken at home in {homeBase.city} and won't count as trips
+                  </p>
+                )}
+                {duplicateCount > 0 && (
+                  <p className="text-xs text-[#D3DBDD] mt-1">
+                    {duplicateCount} {duplicateCount === 1 ? 'duplicate is' : 'duplicates are'} set aside and won't add to photo counts
+                  </p>
+                )}
               </motion.div>
             )}
           </AnimatePresence>
@@ -307,7 +449,7 @@ export default function ImageUploader({ onNext, onBack, initialImages }: ImageUp
                     >
                       <Plus className="w-16 h-16 text-[#D3DBDD] mx-auto mb-4" />
                     </motion.div>
-                    <p className="text-[#FDF6E3] font-medium text-lg mb-1">Click to upload photos</p>
+                    <p className="text-[#FDF6E3] font-medium text-lg mb-1">Click to upload photos or videos</p>
                     <p className="text-[#D3DBDD] text-sm">or drag and drop</p>
                   </>
                 )}
@@ -315,6 +457,86 @@ export default function ImageUploader({ onNext, onBack, initialImages }: ImageUp
             )}
           </AnimatePresence>
 
+          {/* Processing progress */}
+          <AnimatePresence>
+            {processingProgress && (
+              <motion.div
+                className="mb-4 p-3 bg-[#233038] rounded-xl border border-[#075056]"
+                initial={{ opacity: 0, y: -10 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0 }}
+              >
+                <div className="flex items-center justify-between mb-2">
+                  <p className="text-sm text-[#FF5B04] font-medium">
+                    {PROCESSING_LABELS[processingProgress.kind]}
+                  </p>
+                  <p className="text-xs text-[#D3DBDD]">{processingProgress.current} of {processingProgress.total}</p>
+                </div>
+                <div className="h-1.5 bg-[#0B0101] rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-[#FF5B04] rounded-full transition-all duration-300"
+                    style={{ width: `${(processingProgress.current / processingProgress.total) * 100}%` }}
+                  />
+                </div>
+                <button
+                  onClick={cancelProcessing}
+                  className="mt-3 text-xs text-[#D3DBDD] hover:text-[#FF5B04] font-medium transition-colors"
+                >
+                  Cancel
+                </button>
+              </motion.div>
+            )}
+          </AnimatePresence>
+
+          {/* Possible duplicates, one card per group */}
+          <AnimatePresence>
+            {!isProcessing && duplicateGroups.map(group => (
+              <motion.div
+                key={group.ids.join()}
+                className="mb-4 p-3 bg-[#233038] rounded-xl border border-[#F4D47C]/40"
+                initial={{ opacity: 0, y: -10 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, scale: 0.9 }}
+                layout
+              >
+                <div className="flex items-center gap-2 mb-2">
+                  <Copy className="w-4 h-4 text-[#F4D47C]" />
+                  <p className="text-sm text-[#F4D47C] font-medium">
+                    {group.exact ? `${group.ids.length} copies of the same photo` : `${group.ids.length} very similar shots`}
+                  </p>
+                </div>
+                <div className="flex gap-2 mb-3 overflow-x-auto">
+                  {group.ids.map(id => {
+                    const image = imageById.get(id);
+                    return image && (
+                      <img
+                        key={id}
+                        src={image.thumbnail ?? image.preview}
+                        loading="lazy"
+                        alt="Possible duplicate"
+                        className="w-14 h-14 rounded-lg object-cover flex-shrink-0 border border-[#075056]"
+                      />
+                    );
+                  })}
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => keepBestOfGroup(group)}
+                    className="px-4 py-1.5 rounded-full bg-[#FF5B04] hover:bg-[#E54F03] text-white text-xs font-medium transition-colors"
+                  >
+                    Keep best
+                  </button>
+                  <button
+                    onClick={() => keepAllOfGroup(group)}
+                    className="px-4 py-1.5 rounded-full border border-[#D3DBDD] text-[#D3DBDD] hover:border-[#FF5B04] hover:text-[#FF5B04] text-xs font-medium transition-colors"
+                  >
+                    Keep all
+                  </button>
+                </div>
+              </motion.div>
+            ))}
+          </AnimatePresence>
+
           {/* Image grid */}
           <AnimatePresence>
             {images.length > 0 && (
@@ -335,10 +557,20 @@ export default function ImageUploader({ onNext, onBack, initialImages }: ImageUp
                     layout
                   >
                     <img 
-                      src={image.preview} 
+                      src={image.thumbnail ?? image.preview} 
+                      loading="lazy"
                       alt="Travel memory"
-                      className="w-full h-full object-cover"
+                      className={`w-full h-full object-cover ${!isInPeriod(image.timestamp, period) || image.duplicateOf ? 'opacity-40 grayscale' : isHomePhoto(image) ? 'opacity-60' : ''}`}
                     />
+                    {/* Video clip */}
+                    {image.video && (
+                      <div className="absolute top-1 right-8 px-1.5 py-0.5 bg-[#0B0101]/80 rounded-full flex items-center gap-1">
+                        <Play className="w-3 h-3 text-white fill-white" />
+                        {image.video.durationMs > 0 && (
+                          <p className="text-white text-[10px]">{formatClipLength(image.video.durationMs)}</p>
+                        )}
+                      </div>
+                    )}
                     {/* Remove button */}
                     <motion.button
                       onClick={(e) => {
@@ -363,8 +595,33 @@ export default function ImageUploader({ onNext, onBack, initialImages }: ImageUp
                         <p className="text-[#D3DBDD] text-xs">Not tagged</p>
                       )}
                     </div>
+                    {/* Outside the recap period */}
+                    {!isInPeriod(image.timestamp, period) && (
+                      <div className="absolute top-1 left-1 px-2 py-0.5 bg-[#233038] rounded-full flex items-center gap-1">
+                        <CalendarX className="w-3 h-3 text-[#F4D47C]" />
+                        <p className="text-[#F4D47C] text-[10px]">Outside {periodLabel}</p>
+                      </div>
+                    )}
+                    {/* Taken at home */}
+                    {isHomePhoto(image) && (
+                      <div className="absolute top-1 left-1 px-2 py-0.5 bg-[#233038] rounded-full flex items-center gap-1">
+                        <Home className="w-3 h-3 text-[#F4D47C]" />
+                        <p className="text-[#F4D47C] text-[10px]">At home</p>
+                      </div>
+                    )}
+                    {/* Set aside as a duplicate; tap to count it again */}
+                    {image.duplicateOf && isInPeriod(image.timestamp, period) && !isHomePhoto(image) && (
+                      <button
+                        onClick={() => restoreDuplicate(image.id)}
+                        title="Keep this photo too"
+                        className="absolute top-1 left-1 px-2 py-0.5 bg-[#233038] rounded-full flex items-center gap-1 hover:bg-[#075056] transition-colors"
+                      >
+                        <Copy className="w-3 h-3 text-[#F4D47C]" />
+                        <p className="text-[#F4D47C] text-[10px]">Duplicate</p>
+                      </button>
+                    )}
                     {/* Location indicator */}
-                    {image.geoTag && !image.location && (
+                    {image.geoTag && !image.location && !image.duplicateOf && isInPeriod(image.timestamp, period) && !isHomePhoto(image) && (
                       <motion.div 
                         className="absolute top-1 left-1 px-2 py-0.5 bg-[#2563EB] rounded-full flex items-center gap-1"
                         initial={{ opacity: 0, scale: 0 }}
@@ -430,12 +687,12 @@ export default function ImageUploader({ onNext, onBack, initialImages }: ImageUp
       >
         <div className="max-w-lg mx-auto">
           <motion.div
-            whileHover={{ scale: images.length > 0 && !isProcessing ? 1.02 : 1 }}
-            whileTap={{ scale: images.length > 0 && !isProcessing ? 0.98 : 1 }}
+            whileHover={{ scale: tripPhotoCount > 0 && !isProcessing ? 1.02 : 1 }}
+            whileTap={{ scale: tripPhotoCount > 0 && !isProcessing ? 0.98 : 1 }}
           >
             <Button
               onClick={() => onNext(images)}
-              disabled={images.length === 0 || isProcessing}
+              disabled={tripPhotoCount === 0 || isProcessing}
               className="w-full h-12 rounded-full bg-[#FF5B04] hover:bg-[#E54F03] text-white font-medium disabled:bg-[#233038] disabled:text-[#D3DBDD] transition-colors"
             >
               {isProcessing ? (
@@ -2,19 +2,54 @@ import { useState, useMemo, useEffect } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { TravelImage, TravelDestination, COUNTRIES } from "./types";
-import { ArrowLeft, ArrowRight, Globe, Building2, Check, ChevronDown, Search } from "lucide-react";
+import { TravelImage, TravelDestination, ImageCluster, HomeBase, COUNTRIES } from "./types";
+import { ArrowLeft, ArrowRight, Globe, Building2, Check, ChevronDown, Search, Layers, LayoutGrid } from "lucide-react";
+import { splitCluster } from "@/lib/clustering";
+import { splitIntoVisits, DEFAULT_VISIT_GAP_DAYS } from "@/lib/trips";
+import { isHomeCity } from "@/lib/home-base";
+import { withBestFirst } from "@/lib/photo-quality";
+import { ProjectExportOptions } from "@/lib/project-file";
+import BulkTagGrid from "./BulkTagGrid";
+import SaveProjectButton from "./SaveProjectButton";
 import { fadeInUp, slideInUp, scaleInBounce, staggerContainer, popIn } from "@/utils/animations";
 
 interface LocationTaggerProps {
   images: TravelImage[];
+  clusters: ImageCluster[];
+  onImagesChange?: (images: TravelImage[]) => void;
   onComplete: (destinations: TravelDestination[]) => void;
   onBack: () => void;
+  // Days between photos of the same place that start a new visit
+  visitGapDays?: number;
+  // Photos tagged with the home city don't become a destination
+  home?: HomeBase;
+  onSaveProject?: (options: ProjectExportOptions) => Promise<Blob>;
+  projectFilename?: string;
 }
 
-export default function LocationTagger({ images, onComplete, onBack }: LocationTaggerProps) {
+type TaggedLocation = NonNullable<TravelImage['location']>;
+
+// Format a cluster's date span, e.g. "Mar 3 – Mar 7"
+const formatClusterDates = (cluster: ImageCluster): string | null => {
+  if (!cluster.startTimestamp) return null;
+  const fmt = (t: number) => new Date(t).toLocaleDateString('default', { month: 'short', day: 'numeric' });
+  const start = fmt(cluster.startTimestamp);
+  const end = cluster.endTimestamp ? fmt(cluster.endTimestamp) : start;
+  return start === end ? start : `${start} – ${end}`;
+};
+
+export default function LocationTagger({ images, clusters, onImagesChange, onComplete, onBack, visitGapDays = DEFAULT_VISIT_GAP_DAYS, home, onSaveProject, projectFilename }: LocationTaggerProps) {
   const [taggedImages, setTaggedImages] = useState<TravelImage[]>(images);
-  const [currentIndex, setCurrentIndex] = useState(0);
+  // One location is confirmed per cluster (candidate visit) rather than per photo
+  const [clusterList, setClusterList] = useState<ImageCluster[]>(clusters);
+  // Resume at the first cluster with untagged photos (e.g. when restoring a draft)
+  const [currentIndex, setCurrentIndex] = useState(() => {
+    const untagged = new Set(images.filter(img => !img.location).map(img => img.id));
+    const firstUntagged = clusters.findIndex(c => c.imageIds.some(id => untagged.has(id)));
+    return firstUntagged === -1 ? 0 : firstUntagged;
+  });
+  const [previewIndex, setPreviewIndex] = useState(0);
+  const [viewMode, setViewMode] = useState<'carousel' | 'grid'>('carousel');
   const [locationType, setLocationType] = useState<'country' | 'city'>('city');
   const [cityName, setCityName] = useState("");
   const [selectedCountry, setSelectedCountry] = useState("");
@@ -22,14 +57,28 @@ export default function LocationTagger({ images, onComplete, onBack }: LocationT
   const [showCountryDropdown, setShowCountryDropdown] = useState(false);
   const [showSuggestion, setShowSuggestion] = useState(true);
 
-  const currentImage = taggedImages[currentIndex];
-  const hasSuggestion = currentImage?.geoTag?.suggestedCity || currentImage?.geoTag?.suggestedCountry;
+  const currentCluster = clusterList[currentIndex];
+  const clusterPhotos = useMemo(() => {
+    if (!currentCluster) return [];
+    const byId = new Map(taggedImages.map(img => [img.id, img]));
+    return currentCluster.imageIds.map(id => byId.get(id)).filter((img): img is TravelImage => !!img);
+  }, [currentCluster, taggedImages]);
+  const currentImage = clusterPhotos[Math.min(previewIndex, clusterPhotos.length - 1)];
+  const hasSuggestion = currentCluster?.suggestedCity || currentCluster?.suggestedCountry;
+  const clusterDates = currentCluster ? formatClusterDates(currentCluster) : null;
   
   const taggedCount = taggedImages.filter(img => img.location).length;
   const [error, setError] = useState<string | null>(null);
 
-  // Check if current image has been tagged
-  const isCurrentImageTagged = currentImage?.location !== undefined;
+  // Report tags back up so they can be saved as part of the draft
+  useEffect(() => {
+    onImagesChange?.(taggedImages);
+  }, [taggedImages]);
+
+  const isClusterTagged = (cluster: ImageCluster) => {
+    const tagged = new Set(taggedImages.filter(img => img.location).map(img => img.id));
+    return cluster.imageIds.every(id => tagged.has(id));
+  };
 
   const filteredCountries = useMemo(() => {
     if (!countrySearch) return COUNTRIES;
@@ -58,51 +107,63 @@ export default function LocationTagger({ images, onComplete, onBack }: LocationT
     }
 
     setError(null);
-    const updatedImages = [...taggedImages];
-    updatedImages[currentIndex] = {
-      ...currentImage,
-      location: {
-        type: locationType,
-        name: locationType === 'city' ? cityName.trim() : selectedCountry,
-        country: selectedCountry
-      }
-    };
-    setTaggedImages(updatedImages);
-    goToNext();
+    const updated = applyLocationToCluster({
+      type: locationType,
+      name: locationType === 'city' ? cityName.trim() : selectedCountry,
+      country: selectedCountry
+    });
+    goToNext(updated);
   };
 
   const confirmSuggestion = () => {
-    if (!currentImage.geoTag) return;
+    if (!currentCluster.suggestedCountry) return;
     
-    const updatedImages = [...taggedImages];
-    const hasCity = currentImage.geoTag.suggestedCity;
-    updatedImages[currentIndex] = {
-      ...currentImage,
-      location: {
-        type: hasCity ? 'city' : 'country',
-        name: hasCity ? currentImage.geoTag.suggestedCity! : currentImage.geoTag.suggestedCountry!,
-        country: currentImage.geoTag.suggestedCountry!
-      }
-    };
-    setTaggedImages(updatedImages);
-    goToNext();
+    const hasCity = currentCluster.suggestedCity;
+    const updated = applyLocationToCluster({
+      type: hasCity ? 'city' : 'country',
+      name: hasCity ? currentCluster.suggestedCity! : currentCluster.suggestedCountry,
+      country: currentCluster.suggestedCountry
+    });
+    goToNext(updated);
+  };
+
+  // Set (or clear, with undefined) the location on a batch of images. Returns
+  // the updated set, since state won't reflect it until the next render.
+  const applyLocation = (imageIds: string[], location: TaggedLocation | undefined) => {
+    const ids = new Set(imageIds);
+    const updated = taggedImages.map(img => ids.has(img.id) ? { ...img, location } : img);
+    setTaggedImages(updated);
+    return updated;
+  };
+
+  // Every photo in the current cluster gets the same location
+  const applyLocationToCluster = (location: TaggedLocation) => applyLocation(currentCluster.imageIds, location);
+
+  // The grouping was wrong: tag this cluster's photos one at a time instead
+  const tagIndividually = () => {
+    const singles = splitCluster(currentCluster, taggedImages);
+    setClusterList(prev => [...prev.slice(0, currentIndex), ...singles, ...prev.slice(currentIndex + 1)]);
+    setPreviewIndex(0);
+    resetForm();
   };
 
-  const goToNext = () => {
+  const goToNext = (updatedImages: TravelImage[]) => {
     setError(null);
     resetForm();
-    if (currentIndex < taggedImages.length - 1) {
+    setPreviewIndex(0);
+    if (currentIndex < clusterList.length - 1) {
       setCurrentIndex(currentIndex + 1);
     } else {
-      generateDestinations();
+      generateDestinations(updatedImages);
     }
   };
 
-  const generateDestinations = () => {
+  // Takes the images explicitly so a tag applied in the same handler is included
+  const generateDestinations = (finalImages: TravelImage[]) => {
     console.log('=== DESTINATION GENERATION DEBUG ===');
-    console.log('Total images:', taggedImages.length);
+    console.log('Total images:', finalImages.length);
     
-    const taggedWithLocation = taggedImages.filter(img => img.location);
+    const taggedWithLocation = finalImages.filter(img => img.location && !isHomeCity(img.location, home));
     console.log('Images with location:', taggedWithLocation.length);
     
     if (taggedWithLocation.length === 0) {
@@ -119,6 +180,7 @@ export default function LocationTagger({ images, onComplete, onBack }: LocationT
       images: string[];
       timestamps: number[];
       earliestTimestamp: number;
+      gpsPoints: { lat: number; lng: number }[];
     }>();
     
     taggedWithLocation.forEach((img, index) => {
@@ -138,7 +200,8 @@ export default function LocationTagger({ images, onComplete, onBack }: LocationT
             country: img.location.country,
             images: [img.preview],
             timestamps: [timestamp],
-            earliestTimestamp: timestamp
+            earliestTimestamp: timestamp,
+            gpsPoints: img.geoTag ? [img.geoTag] : []
           });
           console.log(`  -> Created new destination with first image`);
         } else {
@@ -146,6 +209,7 @@ export default function LocationTagger({ images, onComplete, onBack }: LocationT
           const existing = destinationMap.get(key)!;
           existing.images.push(img.preview);
           existing.timestamps.push(timestamp);
+          if (img.geoTag) existing.gpsPoints.push(img.geoTag);
           // Update earliest timestamp if this one is earlier
           if (timestamp < existing.earliestTimestamp) {
             existing.earliestTimestamp = timestamp;
@@ -155,31 +219,62 @@ export default function LocationTagger({ images, onComplete, onBack }: LocationT
       }
     });
 
+    const qualityByPreview = new Map(taggedWithLocation.map(img => [img.preview, img.quality]));
+    const byQuality = (preview: string) => qualityByPreview.get(preview);
+
     // Convert map to array, sorted by earliest timestamp (chronological order)
     const destinations: TravelDestination[] = Array.from(destinationMap.entries())
       .sort((a, b) => a[1].earliestTimestamp - b[1].earliestTimestamp)
-      .map(([_, data], index) => ({
-        id: crypto.randomUUID(),
-        type: data.type,
-        name: data.name,
-        country: data.country,
-        images: data.images,
-        visitOrder: index + 1,
-        earliestTimestamp: data.earliestTimestamp
-      }));
+      .map(([_, data], index) => {
+        const id = crypto.randomUUID();
+        // Split repeat trips to the same place into separate visits
+        const visits = splitIntoVisits(
+          id,
+          data.images.map((preview, i) => ({ preview, timestamp: data.timestamps[i] })),
+          visitGapDays
+        );
+        // Photos run visit by visit, each led by its best shot, and the overall
+        // best leads the destination; those are the default covers
+        const images = withBestFirst(visits.flatMap(visit => withBestFirst(visit.images, byQuality)), byQuality);
+        return {
+          id,
+          type: data.type,
+          name: data.name,
+          country: data.country,
+          images,
+          visitOrder: index + 1,
+          earliestTimestamp: data.earliestTimestamp,
+          visits,
+          coordinates: data.gpsPoints.length > 0 ? {
+            lat: data.gpsPoints.reduce((sum, p) => sum + p.lat, 0) / data.gpsPoints.length,
+            lng: data.gpsPoints.reduce((sum, p) => sum + p.lng, 0) / data.gpsPoints.length
+          } : undefined
+        };
+      });
 
     console.log('=== FINAL DESTINATIONS ===');
     console.log('Total destinations:', destinations.length);
     destinations.forEach((d, i) => {
-      console.log(`  ${i + 1}. ${d.name}, ${d.country} (order: ${d.visitOrder}, images: ${d.images.length})`);
+      console.log(`  ${i + 1}. ${d.name}, ${d.country} (order: ${d.visitOrder}, images: ${d.images.length}, visits: ${d.visits?.length})`);
     });
 
     onComplete(destinations);
   };
 
-  const isLastImage = currentIndex === taggedImages.length - 1;
+  const isLastCluster = currentIndex === clusterList.length - 1;
 
-  if (currentIndex >= taggedImages.length) {
+  if (viewMode === 'grid') {
+    return (
+      <BulkTagGrid
+        images={taggedImages}
+        onApply={applyLocation}
+        onClose={() => setViewMode('carousel')}
+        onDone={() => generateDestinations(taggedImages)}
+      />
+    );
+  }
+
+  if (currentIndex >= clusterList.length) {
     return (
       <motion.div 
         className="min-h-screen bg-[#0B0101] flex flex-col items-center justify-center p-4"
@@ -226,7 +321,7 @@ export default function LocationTagger({ images, onComplete, onBack }: LocationT
             whileTap={{ scale: 0.95 }}
           >
             <Button
-              onClick={generateDestinations}
+              onClick={() => generateDestinations(taggedImages)}
               className="h-12 px-8 rounded-full bg-[#FF5B04] hover:bg-[#E54F03] text-white font-medium transition-colors"
             >
               Generate My Recap
@@ -265,8 +360,20 @@ export default function LocationTagger({ images, onComplete, onBack }: LocationT
           transition={{ delay: 0.2 }}
         >
           <p className="text-[#D3DBDD] text-sm">
-            Step 4 of 4 • Image {currentIndex + 1} of {taggedImages.length}
+            Step 4 of 4 • Visit {currentIndex + 1} of {clusterList.length}
           </p>
+          <button
+            onClick={() => setViewMode('grid')}
+            className="text-xs text-[#D3DBDD] hover:text-[#FF5B04] inline-flex items-center gap-1 mt-1 transition-colors"
+          >
+            <LayoutGrid className="w-3 h-3" />
+            Tag in bulk
+          </button>
+          {onSaveProject && projectFilename && (
+            <div>
+              <SaveProjectButton onSave={onSaveProject} filename={projectFilename} />
+            </div>
+          )}
         </motion.div>
         
         {/* Next button - right (only show when suggestion mode) */}
@@ -277,7 +384,7 @@ export default function LocationTagger({ images, onComplete, onBack }: LocationT
             whileHover={{ scale: 1.05 }}
             whileTap={{ scale: 0.95 }}
           >
-            {isLastImage ? 'Done' : 'Next'}
+            {isLastCluster ? 'Done' : 'Next'}
             <ArrowRight className="w-5 h-5" />
           </motion.button>
         ) : (
@@ -294,14 +401,14 @@ export default function LocationTagger({ images, onComplete, onBack }: LocationT
           animate={{ opacity: 1, y: 0 }}
           transition={{ delay: 0.3, duration: 0.4 }}
         >
-          {taggedImages.map((img, i) => (
+          {clusterList.map((cluster, i) => (
             <motion.div 
-              key={img.id}
+              key={cluster.id}
               className={`h-2 rounded-full ${
                 i === currentIndex 
                   ? 'w-6 bg-[#FF5B04]' 
                   : i < currentIndex 
-                    ? img.location ? 'w-2 bg-[#2563EB]' : 'w-2 bg-[#233038]'
+                    ? isClusterTagged(cluster) ? 'w-2 bg-[#2563EB]' : 'w-2 bg-[#233038]'
                     : 'w-2 bg-[#233038]'
               }`}
               initial={i === currentIndex ? { width: 8 } : {}}
@@ -326,6 +433,42 @@ export default function LocationTagger({ images, onComplete, onBack }: LocationT
                 transition={{ duration: 0.4 }}
               />
             </AnimatePresence>
+
+            {/* Cluster summary - photo count, dates and thumbnails */}
+            {clusterPhotos.length > 1 && (
+              <motion.div 
+                className="absolute top-4 left-4 right-4 bg-[#0B0101]/80 backdrop-blur-sm rounded-lg p-3"
+                initial={{ opacity: 0, y: -20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ duration: 0.3 }}
+              >
+                <div className="flex items-center justify-between mb-2">
+                  <p className="text-[#FDF6E3] text-sm font-medium flex items-center gap-1">
+                    <Layers className="w-4 h-4 text-[#F4D47C]" />
+                    {clusterPhotos.length} photos{clusterDates ? ` • ${clusterDates}` : ''}
+                  </p>
+                  <button
+                    onClick={tagIndividually}
+                    className="text-xs text-[#D3DBDD] hover:text-[#FF5B04] underline transition-colors"
+                  >
+                    Tag individually
+                  </button>
+                </div>
+                <div className="flex gap-1 overflow-x-auto">
+                  {clusterPhotos.map((img, i) => (
+                    <button
+                      key={img.id}
+                      onClick={() => setPreviewIndex(i)}
+                      className={`w-10 h-10 flex-shrink-0 rounded overflow-hidden border-2 ${
+                        img.id === currentImage.id ? 'border-[#FF5B04]' : 'border-transparent'
+                      }`}
+                    >
+                      <img src={img.thumbnail ?? img.preview} alt="" className="w-full h-full object-cover" />
+                    </button>
+                  ))}
+                </div>
+              </motion.div>
+            )}
             
             {/* Location suggestion overlay - positioned at bottom of image */}
             <AnimatePresence>
@@ -351,9 +494,9 @@ export default function LocationTagger({ images, onComplete, onBack }: LocationT
                     animate={{ opacity: 1, y: 0 }}
                     transition={{ delay: 0.5 }}
                   >
-                    {currentImage.geoTag?.suggestedCity 
-                      ? `${currentImage.geoTag.suggestedCity}, ${currentImage.geoTag.suggestedCountry}`
-                      : currentImage.geoTag?.suggestedCountry}
+                    {currentCluster.suggestedCity 
+                      ? `${currentCluster.suggestedCity}, ${currentCluster.suggestedCountry}`
+                      : currentCluster.suggestedCountry}
                   </motion.p>
                 </motion.div>
               )}
@@ -398,8 +541,8 @@ export default function LocationTagger({ images, onComplete, onBack }: LocationT
               <motion.button
                 onClick={() => {
                   setShowSuggestion(false);
-                  if (currentImage.geoTag?.suggestedCountry) {
-                    setSelectedCountry(currentImage.geoTag.suggestedCountry);
+                  if (currentCluster.suggestedCountry) {
+                    setSelectedCountry(currentCluster.suggestedCountry);
                   }
                 }}
                 className="flex-1 bg-transparent border-2 border-[#D3DBDD] text-[#D3DBDD] hover:border-[#FF5B04] hover:text-[#FF5B04] py-4 rounded-xl font-semibold transition-all"
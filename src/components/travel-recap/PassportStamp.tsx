@@ -0,0 +1,139 @@
+import { useId, useMemo } from "react";
+import { TravelDestination } from "./types";
+import { getStampDesign, StampShape } from "@/lib/stamp-design";
+
+interface PassportStampProps {
+  destination: TravelDestination;
+  className?: string;
+}
+
+// Shrink long names so they stay inside the available width (viewBox units)
+const fitFontSize = (text: string, width: number, max: number) =>
+  Math.min(max, width / Math.max(text.length * 0.68, 1));
+
+const octagonPoints = (radius: number) =>
+  Array.from({ length: 8 }, (_, i) => {
+    const angle = (Math.PI / 8) * (2 * i + 1);
+    return `${100 + radius * Math.cos(angle)},${100 + radius * Math.sin(angle)}`;
+  }).join(' ');
+
+// Arcs for curved text: the top one runs over the centre, the bottom one under
+// it, both left to right so the lettering reads upright
+const topArc = (r: number) => `M ${100 - r},100 A ${r},${r} 0 0 1 ${100 + r},100`;
+const bottomArc = (r: number) => `M ${100 - r},100 A ${r},${r} 0 0 0 ${100 + r},100`;
+
+function StampBorder({ shape }: { shape: StampShape }) {
+  switch (shape) {
+    case 'circle':
+      return (
+        <>
+          <circle cx="100" cy="100" r="92" strokeWidth="5" />
+          <circle cx="100" cy="100" r="82" strokeWidth="1.5" />
+          <circle cx="100" cy="100" r="46" strokeWidth="1.5" />
+        </>
+      );
+    case 'octagon':
+      return (
+        <>
+          <polygon points={octagonPoints(96)} strokeWidth="5" />
+          <polygon points={octagonPoints(86)} strokeWidth="1.5" />
+          <circle cx="100" cy="100" r="46" strokeWidth="1.5" />
+        </>
+      );
+    case 'rectangle':
+      return (
+        <>
+          <rect x="12" y="38" width="176" height="124" rx="8" strokeWidth="5" />
+          <rect x="20" y="46" width="160" height="108" rx="4" strokeWidth="1.5" />
+        </>
+      );
+    case 'triangle':
+      return (
+        <>
+          <polygon points="100,10 192,178 8,178" strokeWidth="5" strokeLinejoin="round" />
+          <polygon points="100,30 176,168 24,168" strokeWidth="1.5" strokeLinejoin="round" />
+        </>
+      );
+  }
+}
+
+// A rubber passport stamp generated from the destination: the shape and ink
+// come from the country, the tilt and wear from the place itself.
+export default function PassportStamp({ destination, className }: PassportStampProps) {
+  const design = useMemo(() => getStampDesign(destination), [destination]);
+  const id = useId().replace(/:/g, '');
+  const filterId = `stamp-wear-${id}`;
+
+  const title = destination.name.toUpperCase();
+  const subtitle = destination.type === 'city' ? destination.country.toUpperCase() : 'ADMITTED';
+  const isRound = design.shape === 'circle' || design.shape === 'octagon';
+
+  return (
+    <svg
+      viewBox="0 0 200 200"
+      className={className}
+      role="img"
+      aria-label={`Passport stamp for ${destination.name}`}
+    >
+      <defs>
+        {/* Patchy ink: noise knocks holes in the strokes, displacement roughens edges */}
+        <filter id={filterId} x="-10%" y="-10%" width="120%" height="120%">
+          <feTurbulence type="fractalNoise" baseFrequency="0.75" numOctaves="3" seed={design.seed} result="noise" />
+          <feColorMatrix
+            in="noise"
+            type="matrix"
+            values="0 0 0 0 0  0 0 0 0 0  0 0 0 0 0  -3 0 0 0 2.3"
+            result="wear"
+          />
+          <feDisplacementMap in="SourceGraphic" in2="noise" scale="3" result="rough" />
+          <feComposite in="rough" in2="wear" operator="in" />
+        </filter>
+        {isRound && (
+          <>
+            <path id={`${id}-top`} d={topArc(62)} />
+            <path id={`${id}-bottom`} d={bottomArc(74)} />
+          </>
+        )}
+      </defs>
+
+      <g
+        transform={`rotate(${design.rotation} 100 100)`}
+        filter={`url(#${filterId})`}
+        stroke={design.ink}
+        fill="none"
+        opacity="0.9"
+      >
+        <StampBorder shape={design.shape} />
+
+        <g fill={design.ink} stroke="none" fontFamily="'Courier New', monospace" fontWeight="bold" textAnchor="middle">
+          {isRound ? (
+            <>
+              <text fontSize={fitFontSize(title, 170, 20)} letterSpacing="2">
+                <textPath href={`#${id}-top`} startOffset="50%">{title}</textPath>
+              </text>
+              <text fontSize={fitFontSize(subtitle, 190, 14)} letterSpacing="2">
+                <textPath href={`#${id}-bottom`} startOffset="50%">{subtitle}</textPath>
+              </text>
+              <text x="100" y="92" fontSize="9" letterSpacing="1">ENTRY</text>
+              {design.entryDate && <text x="100" y="110" fontSize="12">{design.entryDate}</text>}
+              <text x="28" y="104" fontSize="12">★</text>
+              <text x="172" y="104" fontSize="12">★</text>
+            </>
+          ) : design.shape === 'rectangle' ? (
+            <>
+              <text x="100" y="76" fontSize={fitFontSize(title, 150, 22)} letterSpacing="1">{title}</text>
+              {design.entryDate && <text x="100" y="108" fontSize="14">{design.entryDate}</text>}
+              <text x="100" y="140" fontSize={fitFontSize(subtitle, 140, 13)} letterSpacing="2">{subtitle}</text>
+            </>
+          ) : (
+            <>
+              <text x="100" y="112" fontSize={fitFontSize(title, 96, 18)}>{title}</text>
+              {design.entryDate && <text x="100" y="134" fontSize="10">{design.entryDate}</text>}
+              <text x="100" y="158" fontSize={fitFontSize(subtitle, 130, 11)} letterSpacing="1">{subtitle}</text>
+            </>
+          )}
+        </g>
+      </g>
+    </svg>
+  );
+}
@@ -0,0 +1,243 @@
+import { useState, useMemo } from "react";
+import { motion } from "framer-motion";
+import { Button } from "@/components/ui/button";
+import { TravelDestination, TravelImage, getDestinationDisplayName } from "./types";
+import { ArrowLeft, ArrowRight, ChevronLeft, ChevronRight, Eye, EyeOff, Play, Sparkles, Star } from "lucide-react";
+import { mediaCache } from "@/lib/media-cache";
+import { withBestFirst } from "@/lib/photo-quality";
+import { getVisitImages } from "@/lib/trips";
+import { ProjectExportOptions } from "@/lib/project-file";
+import { fadeInUp, staggerContainer } from "@/utils/animations";
+import SaveProjectButton from "./SaveProjectButton";
+
+interface PhotoCurationProps {
+  destinations: TravelDestination[];
+  images: TravelImage[];
+  onComplete: (destinations: TravelDestination[]) => void;
+  onBack: (destinations: TravelDestination[]) => void;
+  onSaveProject?: (destinations: TravelDestination[], options: ProjectExportOptions) => Promise<Blob>;
+  projectFilename?: string;
+}
+
+// Per destination: pick the cover (the first photo), reorder and hide photos.
+// Covers default to the best shot, see lib/photo-quality.
+export default function PhotoCuration({ destinations, images, onComplete, onBack, onSaveProject, projectFilename }: PhotoCurationProps) {
+  const [curated, setCurated] = useState(destinations);
+  const imageByPreview = useMemo(() => new Map(images.map(img => [img.preview, img])), [images]);
+  const qualityOf = (preview: string) => imageByPreview.get(preview)?.quality;
+
+  const setPhotos = (id: string, shown: string[], hidden: string[]) => {
+    setCurated(prev => prev.map(dest =>
+      dest.id === id ? { ...dest, images: shown, hiddenImages: hidden.length > 0 ? hidden : undefined } : dest
+    ));
+  };
+
+  const makeCover = (dest: TravelDestination, preview: string) => {
+    setPhotos(dest.id, [preview, ...dest.images.filter(p => p !== preview)], dest.hiddenImages ?? []);
+  };
+
+  const move = (dest: TravelDestination, index: number, offset: -1 | 1) => {
+    const shown = [...dest.images];
+    [shown[index], shown[index + offset]] = [shown[index + offset], shown[index]];
+    setPhotos(dest.id, shown, dest.hiddenImages ?? []);
+  };
+
+  const hide = (dest: TravelDestination, preview: string) => {
+    setPhotos(dest.id, dest.images.filter(p => p !== preview), [...(dest.hiddenImages ?? []), preview]);
+  };
+
+  // Restored photos go to the end
+  const show = (dest: TravelDestination, preview: string) => {
+    setPhotos(dest.id, [...dest.images, preview], (dest.hiddenImages ?? []).filter(p => p !== preview));
+  };
+
+  const resetToBestCover = (dest: TravelDestination) => {
+    setPhotos(dest.id, withBestFirst(dest.images, qualityOf), dest.hiddenImages ?? []);
+  };
+
+  // Each visit is its own slide, so it has to keep at least one photo
+  const isLastShownOfVisit = (dest: TravelDestination, preview: string) => {
+    const visit = dest.visits?.find(v => v.images.includes(preview));
+    return (visit ? getVisitImages(dest, visit) : dest.images).length === 1;
+  };
+
+  const hiddenCount = curated.reduce((sum, dest) => sum + (dest.hiddenImages?.length ?? 0), 0);
+
+  return (
+    <div className="min-h-screen bg-[#0B0101] flex flex-col">
+      {/* Header */}
+      <motion.div
+        className="sticky top-0 bg-[#0B0101] border-b border-[#233038] p-4 flex items-center justify-between z-10"
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.4 }}
+      >
+        <motion.button
+          onClick={() => onBack(curated)}
+          className="p-2 hover:bg-[#233038] rounded-full transition-colors"
+          whileHover={{ scale: 1.1 }}
+          whileTap={{ scale: 0.9 }}
+        >
+          <ArrowLeft className="w-6 h-6 text-[#D3DBDD]" />
+        </motion.button>
+        <div className="text-center">
+          <p className="text-[#D3DBDD] text-sm">
+            {curated.length} {curated.length === 1 ? 'destination' : 'destinations'}
+            {hiddenCount > 0 && ` • ${hiddenCount} hidden`}
+          </p>
+          {onSaveProject && projectFilename && (
+            <SaveProjectButton onSave={options => onSaveProject(curated, options)} filename={projectFilename} />
+          )}
+        </div>
+        <motion.button
+          onClick={() => onComplete(curated)}
+          className="text-[#FF5B04] hover:text-[#E54F03] font-semibold flex items-center gap-1 transition-colors"
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+        >
+          Done
+          <ArrowRight className="w-5 h-5" />
+        </motion.button>
+      </motion.div>
+
+      {/* Content */}
+      <div className="flex-1 px-4 py-6 overflow-y-auto">
+        <motion.div
+          className="max-w-lg mx-auto"
+          variants={staggerContainer}
+          initial="hidden"
+          animate="visible"
+        >
+          <motion.h1 className="text-2xl font-bold text-[#FDF6E3] mb-2" variants={fadeInUp}>
+            Pick your favourite shots
+          </motion.h1>
+          <motion.p className="text-[#D3DBDD] mb-6" variants={fadeInUp}>
+            The first photo is the cover of each stamp. Reorder or hide the rest, or keep our picks.
+          </motion.p>
+
+          {curated.map(dest => {
+            const best = withBestFirst(dest.images, qualityOf)[0];
+            const hidden = dest.hiddenImages ?? [];
+            return (
+              <motion.section key={dest.id} className="mb-8" variants={fadeInUp}>
+                <div className="flex items-baseline justify-between mb-3">
+                  <h2 className="text-lg font-bold text-[#FDF6E3]">{getDestinationDisplayName(dest)}</h2>
+                  {best && best !== dest.images[0] && (
+                    <button
+                      onClick={() => resetToBestCover(dest)}
+                      className="text-xs text-[#D3DBDD] hover:text-[#FF5B04] inline-flex items-center gap-1 transition-colors"
+                    >
+                      <Sparkles className="w-3 h-3" />
+                      Use best shot as cover
+                    </button>
+                  )}
+                </div>
+
+                <div className="grid grid-cols-3 gap-2">
+                  {dest.images.map((preview, index) => (
+                    <div
+                      key={preview}
+                      className={`relative aspect-square rounded-xl overflow-hidden border-4 ${index === 0 ? 'border-[#F4D47C]' : 'border-[#233038]'}`}
+                    >
+                      <img
+                        src={mediaCache.url(preview, 'thumb')}
+                        loading="lazy"
+                        alt={`${getDestinationDisplayName(dest)} photo ${index + 1}`}
+                        className="w-full h-full object-cover"
+                      />
+                      {index === 0 && (
+                        <div className="absolute top-1 left-1 px-2 py-0.5 bg-[#F4D47C] rounded-full flex items-center gap-1">
+                          <Star className="w-3 h-3 text-[#0B0101] fill-[#0B0101]" />
+                          <p className="text-[#0B0101] text-[10px] font-semibold">Cover</p>
+                        </div>
+                      )}
+                      {preview === best && index !== 0 && (
+                        <div className="absolute top-1 left-1 px-2 py-0.5 bg-[#233038] rounded-full flex items-center gap-1">
+                          <Sparkles className="w-3 h-3 text-[#F4D47C]" />
+                          <p className="text-[#F4D47C] text-[10px]">Best shot</p>
+                        </div>
+                      )}
+                      {imageByPreview.get(preview)?.video && (
+                        <div className="absolute top-1 right-1 p-1 bg-[#0B0101]/80 rounded-full">
+                          <Play className="w-3 h-3 text-white fill-white" />
+                        </div>
+                      )}
+                      {/* Controls */}
+                      <div className="absolute bottom-0 left-0 right-0 p-1 bg-[#0B0101]/80 flex items-center justify-between">
+                        <button
+                          onClick={() => move(dest, index, -1)}
+                          disabled={index === 0}
+                          aria-label="Move earlier"
+                          className="p-1 text-[#D3DBDD] hover:text-[#FF5B04] disabled:opacity-30 disabled:hover:text-[#D3DBDD] transition-colors"
+                        >
+                          <ChevronLeft className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => makeCover(dest, preview)}
+                          disabled={index === 0}
+                          aria-label="Make cover"
+                          className="p-1 text-[#D3DBDD] hover:text-[#F4D47C] disabled:opacity-30 disabled:hover:text-[#D3DBDD] transition-colors"
+                        >
+                          <Star className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => hide(dest, preview)}
+                          disabled={isLastShownOfVisit(dest, preview)}
+                          aria-label="Hide"
+                          className="p-1 text-[#D3DBDD] hover:text-[#FF5B04] disabled:opacity-30 disabled:hover:text-[#D3DBDD] transition-colors"
+                        >
+                          <EyeOff className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => move(dest, index, 1)}
+                          disabled={index === dest.images.length - 1}
+                          aria-label="Move later"
+                          className="p-1 text-[#D3DBDD] hover:text-[#FF5B04] disabled:opacity-30 disabled:hover:text-[#D3DBDD] transition-colors"
+                        >
+                          <ChevronRight className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+
+                  {/* Hidden photos, tap to bring back */}
+                  {hidden.map(preview => (
+                    <button
+                      key={preview}
+                      onClick={() => show(dest, preview)}
+                      className="relative aspect-square rounded-xl overflow-hidden border-4 border-dashed border-[#233038] group"
+                    >
+                      <img
+                        src={mediaCache.url(preview, 'thumb')}
+                        loading="lazy"
+                        alt="Hidden photo"
+                        className="w-full h-full object-cover opacity-30 grayscale"
+                      />
+                      <div className="absolute inset-0 flex flex-col items-center justify-center text-[#D3DBDD] group-hover:text-[#FF5B04] transition-colors">
+                        <Eye className="w-5 h-5" />
+                        <span className="text-[10px] mt-1">Show</span>
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              </motion.section>
+            );
+          })}
+        </motion.div>
+      </div>
+
+      {/* Footer */}
+      <div className="p-4 bg-[#233038] border-t border-[#075056]">
+        <div className="max-w-lg mx-auto">
+          <Button
+            onClick={() => onComplete(curated)}
+            className="w-full h-12 rounded-full bg-[#FF5B04] hover:bg-[#E54F03] text-white font-medium transition-colors"
+          >
+            Create My Recap
+            <ArrowRight className="w-5 h-5 ml-2" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
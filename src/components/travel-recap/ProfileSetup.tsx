@@ -1,18 +1,39 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { motion } from "framer-motion";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { UserProfile } from "./types";
-import { ArrowLeft, ArrowRight, User } from "lucide-react";
+import DatePickerWithRange from "@/components/ui/date-picker-with-range";
+import { DateRange } from "react-day-picker";
+import { HomeBase, RecapPeriod, TravelImage, UserProfile } from "./types";
+import { ArrowLeft, ArrowRight, User, Home, Sparkles, X } from "lucide-react";
 import { fadeInUp, scaleInBounce, rotateIn } from "@/utils/animations";
+import { inferHomeBase, searchHomeCities } from "@/lib/home-base";
+import { getPlatformLabel, normalizeHandle, SOCIAL_PLATFORMS, SocialPlatform, validateHandle } from "@/lib/social";
+import { getCustomPeriod, getDefaultRecapYear, getLast12MonthsPeriod, getYearPeriod } from "@/lib/recap-period";
+import { DEFAULT_VISIT_GAP_DAYS } from "@/lib/trips";
 
 interface ProfileSetupProps {
-  onNext: (profile: UserProfile) => void;
+  onNext: (profile: UserProfile, period: RecapPeriod) => void;
   onBack: () => void;
   initialProfile?: UserProfile;
+  initialPeriod?: RecapPeriod;
+  // Photos already uploaded (when coming back), used to suggest a home base
+  images?: TravelImage[];
 }
 
+// Years offered in the picker, most recent first
+const YEAR_OPTIONS_COUNT = 5;
+
+const PERIOD_KINDS: { kind: RecapPeriod['kind']; label: string }[] = [
+  { kind: 'year', label: 'Calendar year' },
+  { kind: 'last-12-months', label: 'Last 12 months' },
+  { kind: 'custom', label: 'Custom' }
+];
+
+// Gaps offered for splitting repeat trips to the same place into visits
+const VISIT_GAP_OPTIONS = [1, 3, 7, 14];
+
 // Word animation component
 const AnimatedWord = ({ word, index }: { word: string; index: number }) => (
   <motion.span
@@ -33,19 +54,69 @@ export default function ProfileSetup({
   onNext,
   onBack,
   initialProfile,
+  initialPeriod,
+  images = [],
 }: ProfileSetupProps) {
+  const [platform, setPlatform] = useState<SocialPlatform>(initialProfile?.platform ?? 'none');
   const [username, setUsername] = useState(initialProfile?.username || "");
+  const [home, setHome] = useState<HomeBase | undefined>(initialProfile?.home);
+  const [detectHome, setDetectHome] = useState(!!initialProfile?.detectHome);
+  const [homeQuery, setHomeQuery] = useState("");
+  const [visitGapDays, setVisitGapDays] = useState(initialProfile?.visitGapDays ?? DEFAULT_VISIT_GAP_DAYS);
+  const [periodKind, setPeriodKind] = useState<RecapPeriod['kind']>(initialPeriod?.kind ?? 'year');
+  const [selectedYear, setSelectedYear] = useState(
+    initialPeriod?.kind === 'year' ? new Date(initialPeriod.start).getFullYear() : getDefaultRecapYear()
+  );
+  const [customRange, setCustomRange] = useState<DateRange | undefined>(
+    initialPeriod?.kind === 'custom' ? { from: new Date(initialPeriod.start), to: new Date(initialPeriod.end) } : undefined
+  );
   const [progressWidth, setProgressWidth] = useState(0);
 
+  const currentYear = new Date().getFullYear();
+  const yearOptions = Array.from({ length: YEAR_OPTIONS_COUNT }, (_, i) => currentYear - i);
+  const isPeriodValid = periodKind !== 'custom' || (!!customRange?.from && !!customRange?.to);
+  const handle = normalizeHandle(platform, username);
+  const handleError = validateHandle(platform, handle);
+  const canContinue = !!handle && !handleError && isPeriodValid;
+  const homeResults = useMemo(() => searchHomeCities(homeQuery), [homeQuery]);
+
   useEffect(() => {
     // Animate progress bar on mount
     const timer = setTimeout(() => setProgressWidth(25), 300);
     return () => clearTimeout(timer);
   }, []);
 
+  const buildPeriod = (): RecapPeriod => {
+    switch (periodKind) {
+      case 'last-12-months':
+        return getLast12MonthsPeriod();
+      case 'custom':
+        return getCustomPeriod(customRange!.from!, customRange!.to!);
+      default:
+        return getYearPeriod(selectedYear);
+    }
+  };
+
+  const selectHome = (place: HomeBase) => {
+    setHome(place);
+    setDetectHome(false);
+    setHomeQuery("");
+  };
+
+  // With photos already uploaded we can suggest a home straight away;
+  // otherwise it's worked out once they're in
+  const handleDetectHome = () => {
+    const inferred = inferHomeBase(images);
+    if (inferred) {
+      selectHome(inferred);
+    } else {
+      setDetectHome(true);
+    }
+  };
+
   const handleSubmit = () => {
-    if (username.trim()) {
-      onNext({ username: username.trim(), platform: "none" });
+    if (canContinue) {
+      onNext({ username: handle, platform, home, detectHome: !home && detectHome, visitGapDays }, buildPeriod());
     }
   };
 
@@ -135,20 +206,195 @@ export default function ProfileSetup({
           transition={{ delay: 1.4, duration: 0.5 }}
         >
           <Label htmlFor="username" className="text-[#FDF6E3] font-medium">
-            Your username
+            {platform === 'none' ? 'Your name' : `Your ${getPlatformLabel(platform)} handle`}
           </Label>
+          <div className="flex gap-2 bg-[#233038] rounded-lg p-1">
+            {SOCIAL_PLATFORMS.map(option => (
+              <button
+                key={option}
+                onClick={() => setPlatform(option)}
+                className={`flex-1 py-2 rounded-md text-sm font-medium transition-all ${
+                  platform === option ? 'bg-[#FF5B04] text-white' : 'text-[#D3DBDD]'
+                }`}
+              >
+                {getPlatformLabel(option)}
+              </button>
+            ))}
+          </div>
           <motion.div
+            className="relative"
             whileFocus={{ scale: 1.02 }}
             transition={{ duration: 0.2 }}
           >
+            {platform !== 'none' && (
+              <span className="absolute left-4 top-1/2 -translate-y-1/2 text-lg text-[#D3DBDD]">@</span>
+            )}
             <Input
               id="username"
               value={username}
               onChange={(e) => setUsername(e.target.value)}
-              placeholder="Enter your username"
-              className="h-14 text-lg rounded-xl bg-[#0B0101] border-[#075056] text-[#FDF6E3] placeholder:text-[#D3DBDD] focus:border-[#FF5B04] focus:ring-[#FF5B04]"
+              placeholder={platform === 'none' ? "Enter your name" : "yourhandle"}
+              className={`h-14 text-lg rounded-xl bg-[#0B0101] border-[#075056] text-[#FDF6E3] placeholder:text-[#D3DBDD] focus:border-[#FF5B04] focus:ring-[#FF5B04] ${platform !== 'none' ? 'pl-9' : ''}`}
             />
           </motion.div>
+          {handleError && (
+            <p className="text-sm text-[#FF5B04]">{handleError}</p>
+          )}
+        </motion.div>
+
+        {/* Recap period */}
+        <motion.div
+          className="space-y-3 mb-8"
+          initial={{ opacity: 0, y: 30 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 1.5, duration: 0.5 }}
+        >
+          <Label className="text-[#FDF6E3] font-medium">
+            Which trips should we include?
+          </Label>
+          <div className="flex gap-2 bg-[#233038] rounded-lg p-1">
+            {PERIOD_KINDS.map(({ kind, label }) => (
+              <button
+                key={kind}
+                onClick={() => setPeriodKind(kind)}
+                className={`flex-1 py-2 rounded-md text-sm font-medium transition-all ${
+                  periodKind === kind ? 'bg-[#FF5B04] text-white' : 'text-[#D3DBDD]'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {periodKind === 'year' && (
+            <div className="flex flex-wrap gap-2">
+              {yearOptions.map(year => (
+                <button
+                  key={year}
+                  onClick={() => setSelectedYear(year)}
+                  className={`px-4 py-2 rounded-full text-sm font-medium border transition-colors ${
+                    selectedYear === year
+                      ? 'bg-[#FF5B04] border-[#FF5B04] text-white'
+                      : 'border-[#075056] text-[#D3DBDD] hover:border-[#FF5B04]'
+                  }`}
+                >
+                  {year}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {periodKind === 'last-12-months' && (
+            <p className="text-sm text-[#D3DBDD]">
+              Photos from the past 12 months, up to today
+            </p>
+          )}
+
+          {periodKind === 'custom' && (
+            <DatePickerWithRange
+              date={customRange}
+              onDateChange={setCustomRange}
+              disabled={day => day > new Date()}
+            />
+          )}
+        </motion.div>
+
+        {/* Home base */}
+        <motion.div
+          className="space-y-3 mb-8"
+          initial={{ opacity: 0, y: 30 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 1.55, duration: 0.5 }}
+        >
+          <Label htmlFor="home" className="text-[#FDF6E3] font-medium">
+            Where's home? <span className="text-[#D3DBDD] font-normal">(optional)</span>
+          </Label>
+
+          {home || detectHome ? (
+            <div className="flex items-center gap-3 bg-[#233038] border border-[#075056] rounded-xl px-4 py-3">
+              {home ? <Home className="w-5 h-5 text-[#FF5B04] shrink-0" /> : <Sparkles className="w-5 h-5 text-[#F4D47C] shrink-0" />}
+              <div className="flex-1 min-w-0">
+                <p className="text-[#FDF6E3] font-medium truncate">
+                  {home ? `${home.city}, ${home.country}` : "We'll work it out from your photos"}
+                </p>
+                {home?.source === 'photos' && (
+                  <p className="text-xs text-[#D3DBDD]">Your most-photographed place</p>
+                )}
+              </div>
+              <button
+                onClick={() => { setHome(undefined); setDetectHome(false); }}
+                className="p-1 hover:bg-[#0B0101] rounded-full transition-colors"
+                aria-label="Clear home base"
+              >
+                <X className="w-4 h-4 text-[#D3DBDD]" />
+              </button>
+            </div>
+          ) : (
+            <>
+              <div className="relative">
+                <Input
+                  id="home"
+                  value={homeQuery}
+                  onChange={(e) => setHomeQuery(e.target.value)}
+                  placeholder="Search your home city"
+                  className="h-12 rounded-xl bg-[#0B0101] border-[#075056] text-[#FDF6E3] placeholder:text-[#D3DBDD] focus:border-[#FF5B04] focus:ring-[#FF5B04]"
+                />
+                {homeResults.length > 0 && (
+                  <div className="absolute z-10 w-full mt-1 bg-[#233038] border border-[#075056] rounded-xl overflow-hidden shadow-lg">
+                    {homeResults.map(place => (
+                      <button
+                        key={`${place.city}-${place.country}`}
+                        onClick={() => selectHome(place)}
+                        className="w-full px-4 py-2 text-left text-[#FDF6E3] hover:bg-[#075056] transition-colors"
+                      >
+                        {place.city}, <span className="text-[#D3DBDD]">{place.country}</span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <button
+                onClick={handleDetectHome}
+                className="flex items-center gap-2 text-sm text-[#F4D47C] hover:underline"
+              >
+                <Sparkles className="w-4 h-4" />
+                Use my most-photographed place
+              </button>
+            </>
+          )}
+          <p className="text-xs text-[#D3DBDD]">
+            Photos taken at home won't count as trips, and distances are measured from here
+          </p>
+        </motion.div>
+
+        {/* Visit gap */}
+        <motion.div
+          className="space-y-3 mb-8"
+          initial={{ opacity: 0, y: 30 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 1.58, duration: 0.5 }}
+        >
+          <Label className="text-[#FDF6E3] font-medium">
+            Back somewhere again? Count it as a new visit after
+          </Label>
+          <div className="flex flex-wrap gap-2">
+            {VISIT_GAP_OPTIONS.map(days => (
+              <button
+                key={days}
+                onClick={() => setVisitGapDays(days)}
+                className={`px-4 py-2 rounded-full text-sm font-medium border transition-colors ${
+                  visitGapDays === days
+                    ? 'bg-[#FF5B04] border-[#FF5B04] text-white'
+                    : 'border-[#075056] text-[#D3DBDD] hover:border-[#FF5B04]'
+                }`}
+              >
+                {days} {days === 1 ? 'day' : 'days'}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-[#D3DBDD]">
+            Each visit gets its own slide, so a place you went back to shows up twice
+          </p>
         </motion.div>
       </div>
       
@@ -160,12 +406,12 @@ export default function ProfileSetup({
         transition={{ delay: 1.6, duration: 0.5, type: "spring" }}
       >
         <motion.div
-          whileHover={{ scale: username.trim() ? 1.02 : 1 }}
-          whileTap={{ scale: username.trim() ? 0.98 : 1 }}
+          whileHover={{ scale: canContinue ? 1.02 : 1 }}
+          whileTap={{ scale: canContinue ? 0.98 : 1 }}
         >
           <Button
             onClick={handleSubmit}
-            disabled={!username.trim()}
+            disabled={!canContinue}
             className="w-full h-14 text-lg font-semibold rounded-full bg-[#FF5B04] hover:bg-[#E54F03] text-white disabled:bg-[#233038] disabled:text-[#D3DBDD] transition-colors"
           >
             Continue
@@ -1,10 +1,25 @@
-import { useState, useEffect, useCallback, useRef, useMemo } from "react";
+import { useState, useEffect, useCallback, useRef, useMemo, createContext, useContext } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { TravelRecapData, TravelDestination, getDestinationDisplayName } from "./types";
+import { TravelRecapData, TravelDestination, VideoClip, getDestinationDisplayName } from "./types";
 import StampCard from "./StampCard";
-import { ArrowLeft, Download, Plane, MapPin, ChevronLeft, ChevronRight, Calendar, Share2 } from "lucide-react";
+import { ArrowLeft, Download, Plane, MapPin, ChevronLeft, ChevronRight, Calendar, Share2, Film, Images, Loader2, BookOpen, Link2, Save } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import html2canvas from "html2canvas";
+import { formatVisitRange, groupVisitsByQuarter, QuarterKey, QuarterlyVisits } from "@/lib/trips";
+import { getPeriodText, RecapPeriodText } from "@/lib/recap-period";
+import { geoCentroid, geoNaturalEarth1, geoPath } from "d3-geo";
+import { CountryFeature, loadCountries } from "@/lib/geo/countries";
+import { LatLng, resolveDestinationCoordinates } from "@/lib/geo/places";
+import { EARTH_CIRCUMFERENCE_KM, sampleRoute } from "@/lib/geo/route";
+import { buildJourney, computeRecapStats, RecapStats, TripStat } from "@/lib/recap-stats";
+import { Continent } from "@/lib/geo/continents";
+import { format } from "date-fns";
+import { canvasToPng, createZip, downloadBlob, fitToPreset, pickVideoFormat, recordSlideshow, renderOffscreen, StoryFrame } from "@/lib/story-export";
+import { formatHandle, getExportPresets } from "@/lib/social";
+import { getPublishedRecapUrl, publishRecap } from "@/lib/recap-storage";
+import { encodeRecapLink } from "@/lib/recap-link";
+import { PROJECT_FILE_EXTENSION, ProjectExportOptions } from "@/lib/project-file";
+import { mediaCache } from "@/lib/media-cache";
+import PassportStamp from "./PassportStamp";
 import { 
   fadeInUp, 
   scaleInBounce, 
@@ -22,16 +37,28 @@ import {
 
 interface RecapStoryProps {
   data: TravelRecapData;
-  onBack: () => void;
-  onRestart: () => void;
+  onBack?: () => void;
+  onRestart?: () => void;
+  // Someone else's published recap: no back, restart or publish controls
+  readOnly?: boolean;
+  // Precomputed figures (e.g. decoded from a share link) used as they are
+  stats?: RecapStats;
+  // No photos to show: destinations are told with their passport stamps
+  illustrated?: boolean;
+  // Packs the recap and its photos into a .stampedrecap file
+  onSaveProject?: (options: ProjectExportOptions) => Promise<Blob>;
+  // Video clips by preview URL, played in place of their poster frames
+  clips?: Map<string, VideoClip>;
 }
 
-type QuarterKey = 'Q1' | 'Q2' | 'Q3' | 'Q4';
-
 type StorySlide = 
   | { type: 'intro' }
-  | { type: 'quarter-intro'; quarter: QuarterKey; quarterName: string; count: number; destinations: TravelDestination[] }
-  | { type: 'destination'; destination: TravelDestination; quarter: QuarterKey }
+  | { type: 'quarter-intro'; quarter: QuarterKey; label: string; quarterName: string; count: number; destinations: TravelDestination[] }
+  | { type: 'destination'; destination: TravelDestination; quarterLabel: string }
+  | { type: 'world-map' }
+  | { type: 'route' }
+  | { type: 'stats' }
+  | { type: 'extremes' }
   | { type: 'summary-intro' }
   | { type: 'top-spot' }
   | { type: 'busiest-quarter' }
@@ -46,11 +73,11 @@ const QUARTER_NAMES: Record<QuarterKey, string> = {
 };
 
 // Fun opening lines for personality
-const OPENING_LINES = [
-  "Your 2025 was a journey! 🌍",
-  "2025 flew by so faaaaast ✈️\nBut we caught the best moments",
+const getOpeningLines = ({ label, title, inLabel }: RecapPeriodText) => [
+  `Your ${label} was a journey! 🌍`,
+  `${title} flew by so faaaaast ✈️\nBut we caught the best moments`,
   "What a year it's been! 🎉",
-  "You really said 'let's travel' in 2025 ✨",
+  `You really said 'let's travel' ${inLabel} ✨`,
   "Passport status: Very active 🔥",
   "Plot twist: You became a travel icon ✈️",
   "Adventure was your middle name 🗺️"
@@ -117,40 +144,142 @@ const getLocationMessage = (imageCount: number): string => {
 // Random helper
 const getRandomItem = <T,>(arr: T[]): T => arr[Math.floor(Math.random() * arr.length)];
 
-export default function RecapStory({ data, onBack, onRestart }: RecapStoryProps) {
+// Clips play for their own length, within reason
+const MIN_CLIP_MS = 3000;
+const MAX_CLIP_MS = 15000;
+
+// How long each photo or clip of a destination slide is shown. Photos share
+// a base 8 seconds + 4 seconds per additional photo
+// 1 photo = 8s, 2 photos = 12s, 3 photos = 16s, 5 photos = 24s
+const getImageDurations = (images: string[], clips: Map<string, VideoClip>): number[] => {
+  const photoCount = images.filter(src => !clips.has(src)).length;
+  const perPhoto = photoCount > 0 ? (8000 + (photoCount - 1) * 4000) / photoCount : 0;
+  return images.map(src => {
+    const clip = clips.get(src);
+    if (!clip) return perPhoto;
+    return clip.durationMs > 0 ? Math.min(Math.max(clip.durationMs, MIN_CLIP_MS), MAX_CLIP_MS) : 4000;
+  });
+};
+
+// How long each slide stays up before auto-advancing
+const getSlideDuration = (slide: StorySlide, clips: Map<string, VideoClip>): number => {
+  if (slide.type === 'destination') {
+    if (slide.destination.images.length === 0) return 8000;
+    return getImageDurations(slide.destination.images, clips).reduce((sum, ms) => sum + ms, 0);
+  }
+  if (slide.type === 'quarter-intro') return 14000;
+  if (slide.type === 'intro') return 10000;
+  if (slide.type === 'stamp-collection') return 16000;
+  return 10000;
+};
+
+// True when slides are rendered offscreen for export: counters, image cycling
+// and random picks settle immediately so every capture comes out the same
+const StaticRenderContext = createContext(false);
+
+// True for photo-free stories, where stamps stand in for the photos
+const IllustratedContext = createContext(false);
+
+const NO_CLIPS = new Map<string, VideoClip>();
+
+// Video clips by their poster's preview URL; empty when rendering stills
+const ClipsContext = createContext(NO_CLIPS);
+
+// Map geometry and a position for every destination, loaded once per story
+interface MapData {
+  countries: CountryFeature[];
+  coordinates: Map<string, LatLng>;
+}
+
+type ExportProgress =
+  | { phase: 'rendering'; title: string; current: number; total: number }
+  | { phase: 'recording'; title: string; elapsedMs: number; totalMs: number }
+  | { phase: 'uploading'; title: string; current: number; total: number }
+  | { phase: 'packing'; title: string; current: number; total: number };
+
+// Image description for posts on platforms that support alt text
+function getSlideAltText(slide: StorySlide, data: TravelRecapData, periodText: RecapPeriodText, quarterlyData: QuarterlyVisits, stats: RecapStats): string {
+  const names = (destinations: TravelDestination[]) => destinations.map(d => d.name).join(', ');
+  switch (slide.type) {
+    case 'intro':
+      return `Title card for ${formatHandle(data.profile)}'s travel recap of ${periodText.label}: ${data.destinations.length} places visited.`;
+    case 'quarter-intro':
+      return `${slide.label}, ${slide.quarterName}: ${slide.count} ${slide.count === 1 ? 'place' : 'places'} - ${names(slide.destinations)}.`;
+    case 'destination': {
+      const visit = slide.destination.visits?.[0];
+      return `Travel photo from ${getDestinationDisplayName(slide.destination)}${visit ? `, ${formatVisitRange(visit)}` : ''}.`;
+    }
+    case 'world-map':
+      return `World map highlighting the countries visited: ${[...new Set(data.destinations.map(d => d.country))].join(', ')}.`;
+    case 'route':
+      return `Map of the route between ${data.destinations.length} stops, ${stats.totalDistanceKm.toLocaleString()} km in total.`;
+    case 'stats':
+      return `By the numbers: ${stats.totalDistanceKm.toLocaleString()} km covered, ${stats.daysAway} days on the road, ${stats.countriesVisited} countries (${stats.worldCountriesPercent}% of the world)${stats.continents.length > 0 ? ` across ${stats.continents.join(', ')}` : ''}.`;
+    case 'extremes':
+      return [
+        stats.longestTrip && `Longest trip: ${stats.longestTrip.days} days.`,
+        stats.furthestFromHome && `Furthest from home: ${stats.furthestFromHome.destination.name}.`,
+        stats.northernmost && `Furthest north: ${stats.northernmost.destination.name}.`,
+        stats.southernmost && `Furthest south: ${stats.southernmost.destination.name}.`
+      ].filter(Boolean).join(' ') || 'Travel records.';
+    case 'summary-intro':
+      return `Summary card: ${data.destinations.length} places in ${new Set(data.destinations.map(d => d.country)).size} countries ${periodText.inLabel}.`;
+    case 'top-spot': {
+      const top = data.destinations.reduce<TravelDestination | null>((max, d) => !max || d.images.length > max.images.length ? d : max, null);
+      return top ? `Most photographed place: ${getDestinationDisplayName(top)}, with ${top.images.length} photos.` : 'Most photographed place.';
+    }
+    case 'busiest-quarter': {
+      const busiest = quarterlyData.quarters.reduce((max, q) => q.visits.length > max.visits.length ? q : max);
+      return `Busiest quarter: ${busiest.label}, with ${busiest.visits.length} places.`;
+    }
+    case 'quarter-breakdown':
+      return `Places per quarter: ${quarterlyData.quarters.map(q => `${q.label} ${q.visits.length}`).join(', ')}.`;
+    case 'stamp-collection':
+      return `Passport stamp collection: ${names(data.destinations)}.`;
+  }
+}
+
+const formatClock = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+export default function RecapStory({ data, onBack, onRestart, readOnly = false, stats: precomputedStats, illustrated = false, onSaveProject, clips = NO_CLIPS }: RecapStoryProps) {
   const [currentSlideIndex, setCurrentSlideIndex] = useState(0);
   const [isAnimating, setIsAnimating] = useState(false);
   const [progress, setProgress] = useState(0);
-  const slideRef = useRef<HTMLDivElement>(null);
-
-  // Group destinations by quarter based on timestamps
-  const quarterlyDestinations = useMemo(() => {
-    const quarters: Record<QuarterKey, TravelDestination[]> = {
-      Q1: [],
-      Q2: [],
-      Q3: [],
-      Q4: []
-    };
-    
-    data.destinations.forEach(dest => {
-      const timestamp = dest.earliestTimestamp;
-      if (timestamp) {
-        const date = new Date(timestamp);
-        const month = date.getMonth() + 1; // 1-12
-        
-        if (month <= 3) quarters.Q1.push(dest);
-        else if (month <= 6) quarters.Q2.push(dest);
-        else if (month <= 9) quarters.Q3.push(dest);
-        else quarters.Q4.push(dest);
-      } else {
-        // No timestamp - put in Q4 as fallback
-        quarters.Q4.push(dest);
-      }
-    });
-    
-    return quarters;
+  const [exportProgress, setExportProgress] = useState<ExportProgress | null>(null);
+  const exportAbortRef = useRef<AbortController | null>(null);
+  // Publishing again shares the same link instead of uploading a copy
+  const publishedIdRef = useRef<string | null>(null);
+  const periodText = useMemo(() => getPeriodText(data.period), [data.period]);
+  const exportPresets = useMemo(() => getExportPresets(data.profile.platform), [data.profile.platform]);
+  const [exportPreset, setExportPreset] = useState(exportPresets[0]);
+
+  // Group visits by quarter based on timestamps - a place visited twice
+  // appears once per visit, in the quarter each visit started
+  const quarterlyDestinations = useMemo(
+    () => groupVisitsByQuarter(data.destinations, data.period),
+    [data.destinations, data.period]
+  );
+
+  // Load map geometry up front so map slides render straight away (and export)
+  const [mapData, setMapData] = useState<MapData | null>(null);
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([loadCountries('110m'), resolveDestinationCoordinates(data.destinations)])
+      .then(([countries, coordinates]) => {
+        if (!cancelled) setMapData({ countries, coordinates });
+      })
+      .catch(err => console.error('Failed to load map data:', err));
+    return () => { cancelled = true; };
   }, [data.destinations]);
 
+  const stats = useMemo(
+    () => precomputedStats ?? computeRecapStats(data, { coordinates: mapData?.coordinates, home: data.profile.home?.coordinates }),
+    [data, mapData, precomputedStats]
+  );
+
   // Build slides array based on quarters
   const slides: StorySlide[] = useMemo(() => {
     if (data.destinations.length === 0) {
@@ -159,17 +288,15 @@ export default function RecapStory({ data, onBack, onRestart }: RecapStoryProps)
 
     const slideList: StorySlide[] = [{ type: 'intro' }];
     
-    // Add slides for each quarter that has destinations
-    const quarterOrder: QuarterKey[] = ['Q1', 'Q2', 'Q3', 'Q4'];
-    
-    quarterOrder.forEach(quarter => {
-      const dests = quarterlyDestinations[quarter];
+    // Add slides for each quarter that has destinations, oldest first
+    quarterlyDestinations.quarters.forEach(({ quarter, label, visits: dests }) => {
       if (dests.length === 0) return;
       
       // Quarter intro slide
       slideList.push({
         type: 'quarter-intro',
         quarter,
+        label,
         quarterName: QUARTER_NAMES[quarter],
         count: dests.length,
         destinations: dests
@@ -180,37 +307,51 @@ export default function RecapStory({ data, onBack, onRestart }: RecapStoryProps)
         slideList.push({
           type: 'destination',
           destination: dest,
-          quarter
+          quarterLabel: label
         });
       });
     });
+
+    // Places without a date can't be placed in a quarter, so they come last
+    quarterlyDestinations.undated.forEach(dest => {
+      slideList.push({ type: 'destination', destination: dest, quarterLabel: 'Undated' });
+    });
     
+    // Where it all happened, before the summary
+    slideList.push({ type: 'world-map' });
+    if (data.destinations.length > 1) {
+      slideList.push({ type: 'route' });
+    }
+    slideList.push({ type: 'stats' });
+    slideList.push({ type: 'extremes' });
+
     // Summary slides (5 new slides)
     slideList.push({ type: 'summary-intro' });
-    slideList.push({ type: 'top-spot' });
+    // "Most photographed" means nothing without photos
+    if (!illustrated) {
+      slideList.push({ type: 'top-spot' });
+    }
     slideList.push({ type: 'busiest-quarter' });
     slideList.push({ type: 'quarter-breakdown' });
     slideList.push({ type: 'stamp-collection' });
     
     return slideList;
-  }, [data.destinations, quarterlyDestinations]);
+  }, [data.destinations, quarterlyDestinations, illustrated]);
 
   // Debug logging for slides
   useEffect(() => {
     console.log('=== RECAP STORY DEBUG ===');
     console.log('Destinations received:', data.destinations.length);
     console.log('Quarterly breakdown:', {
-      Q1: quarterlyDestinations.Q1.length,
-      Q2: quarterlyDestinations.Q2.length,
-      Q3: quarterlyDestinations.Q3.length,
-      Q4: quarterlyDestinations.Q4.length
+      ...Object.fromEntries(quarterlyDestinations.quarters.map(q => [q.label, q.visits.length])),
+      undated: quarterlyDestinations.undated.length
     });
     console.log('Total slides:', slides.length);
     slides.forEach((slide, i) => {
       if (slide.type === 'destination') {
-        console.log(`  Slide ${i}: destination - ${slide.destination.name} (${slide.quarter})`);
+        console.log(`  Slide ${i}: destination - ${slide.destination.name} (${slide.quarterLabel})`);
       } else if (slide.type === 'quarter-intro') {
-        console.log(`  Slide ${i}: quarter-intro - ${slide.quarter} (${slide.count} places)`);
+        console.log(`  Slide ${i}: quarter-intro - ${slide.label} (${slide.count} places)`);
       } else {
         console.log(`  Slide ${i}: ${slide.type}`);
       }
@@ -248,25 +389,14 @@ export default function RecapStory({ data, onBack, onRestart }: RecapStoryProps)
 
   // Auto-advance timer
   useEffect(() => {
-    // Don't auto-advance on stamp-collection slide (the final slide)
-    if (currentSlide.type === 'stamp-collection') {
+    // Don't auto-advance on stamp-collection slide (the final slide),
+    // or while an export is running
+    if (currentSlide.type === 'stamp-collection' || exportProgress) {
       return;
     }
 
     // Calculate dynamic duration - for destinations, base on image count
-    const getSlideDuration = () => {
-      if (currentSlide.type === 'destination') {
-        const imageCount = currentSlide.destination.images.length;
-        // Base 8 seconds + 4 seconds per additional image
-        // 1 image = 8s, 2 images = 12s, 3 images = 16s, 5 images = 24s
-        return 8000 + (imageCount - 1) * 4000;
-      }
-      if (currentSlide.type === 'quarter-intro') return 14000;
-      if (currentSlide.type === 'intro') return 10000;
-      if (currentSlide.type === 'stamp-collection') return 16000;
-      return 10000;
-    };
-    const duration = getSlideDuration();
+    const duration = getSlideDuration(currentSlide, clips);
     const interval = 50;
     const increment = (interval / duration) * 100;
 
@@ -281,7 +411,7 @@ export default function RecapStory({ data, onBack, onRestart }: RecapStoryProps)
     }, interval);
 
     return () => clearInterval(progressTimer);
-  }, [currentSlideIndex, currentSlide.type]);
+  }, [currentSlideIndex, currentSlide.type, !!exportProgress]);
 
   // Separate effect to handle slide advancement when progress reaches 100
   useEffect(() => {
@@ -303,29 +433,242 @@ export default function RecapStory({ data, onBack, onRestart }: RecapStoryProps)
     }
   };
 
+  const exportFilename = (suffix: string) => `stamped-recap-${periodText.fileSlug}-${data.profile.username}${suffix}`;
+
+  // Renders a slide offscreen at 1080x1920, without the progress bars and
+  // buttons, then fits it to the chosen export size
+  const renderSlideImage = async (slide: StorySlide, imageIndex?: number) => {
+    // Destination photos are captured from an export-size copy, made for this
+    // frame only so a long export never holds more than one
+    const photo = slide.type === 'destination' ? slide.destination.images[imageIndex ?? 0] : undefined;
+    if (photo) {
+      await mediaCache.load(photo, 'export').catch(err => console.error('Failed to prepare export image:', err));
+    }
+    try {
+      return await renderSlideCanvas(slide, imageIndex);
+    } finally {
+      mediaCache.releaseSize('export');
+    }
+  };
+
+  const renderSlideCanvas = async (slide: StorySlide, imageIndex?: number) => fitToPreset(
+    await renderOffscreen(
+      <StaticRenderContext.Provider value={true}>
+        <IllustratedContext.Provider value={illustrated}>
+          <SlideContent
+            slide={slide}
+            data={data}
+            periodText={periodText}
+            quarterlyData={quarterlyDestinations}
+            mapData={mapData}
+            stats={stats}
+            imageIndex={imageIndex}
+          />
+        </IllustratedContext.Provider>
+      </StaticRenderContext.Provider>
+    ),
+    exportPreset,
+    { title: `${periodText.title}, stamped`, handle: formatHandle(data.profile) }
+  );
+
   const handleShare = async () => {
-    if (!slideRef.current) return;
-    
+    // Ready to paste into the post's image description. Copied before the
+    // render, since browsers only allow it while the click still counts.
+    if (exportPreset.altText) {
+      const altText = getSlideAltText(currentSlide, data, periodText, quarterlyDestinations, stats);
+      // Without clipboard access, offer it to copy by hand
+      const showAltText = () => prompt('Copy the image description for your post:', altText);
+      if (navigator.clipboard) {
+        navigator.clipboard.writeText(altText).catch(err => {
+          console.error('Failed to copy alt text:', err);
+          showAltText();
+        });
+      } else {
+        showAltText();
+      }
+    }
     try {
-      const canvas = await html2canvas(slideRef.current, {
-        backgroundColor: '#0B0101',
-        scale: 2,
-        useCORS: true,
-        allowTaint: true,
-      });
-      
-      const link = document.createElement('a');
-      link.download = `stamped-recap-2025-${data.profile.username}.png`;
-      link.href = canvas.toDataURL('image/png');
-      link.click();
+      const canvas = await renderSlideImage(currentSlide);
+      downloadBlob(await canvasToPng(canvas), exportFilename('.png'));
     } catch (err) {
       console.error('Failed to capture screenshot:', err);
     }
   };
 
+  const cycleExportPreset = () => {
+    const index = exportPresets.findIndex(p => p.id === exportPreset.id);
+    setExportPreset(exportPresets[(index + 1) % exportPresets.length]);
+  };
+
+  const handleExportImages = async () => {
+    const controller = new AbortController();
+    exportAbortRef.current = controller;
+
+    try {
+      const files: { name: string; blob: Blob }[] = [];
+      const altText: string[] = [];
+      for (let i = 0; i < slides.length; i++) {
+        if (controller.signal.aborted) return;
+        setExportProgress({ phase: 'rendering', title: 'Exporting your slides', current: i + 1, total: slides.length });
+        const canvas = await renderSlideImage(slides[i]);
+        // Zero-padded so the carousel order survives alphabetical sorting
+        const name = `${String(i + 1).padStart(2, '0')}-${slides[i].type}.png`;
+        files.push({ name, blob: await canvasToPng(canvas) });
+        altText.push(`${name}\n${getSlideAltText(slides[i], data, periodText, quarterlyDestinations, stats)}\n`);
+      }
+      if (controller.signal.aborted) return;
+      if (exportPreset.altText) {
+        files.push({ name: 'alt-text.txt', blob: new Blob([altText.join('\n')], { type: 'text/plain' }) });
+      }
+      downloadBlob(await createZip(files), exportFilename('.zip'));
+    } catch (err) {
+      console.error('Failed to export slides:', err);
+      alert('Sorry, the export failed. Please try again.');
+    } finally {
+      exportAbortRef.current = null;
+      setExportProgress(null);
+    }
+  };
+
+  const handleExportVideo = async () => {
+    const format = pickVideoFormat();
+    if (!format) {
+      alert('Video export is not supported in this browser.');
+      return;
+    }
+
+    const controller = new AbortController();
+    exportAbortRef.current = controller;
+
+    try {
+      // Destination slides cycle their photos, so capture one frame per photo;
+      // clips are shown as their poster frame for as long as they'd play
+      const shots = slides.flatMap(slide => {
+        if (slide.type === 'destination' && slide.destination.images.length > 1) {
+          const durations = getImageDurations(slide.destination.images, clips);
+          return slide.destination.images.map((_, i) => ({ slide, imageIndex: i, durationMs: durations[i] }));
+        }
+        return [{ slide, imageIndex: undefined, durationMs: getSlideDuration(slide, clips) }];
+      });
+
+      const frames: StoryFrame[] = [];
+      for (let i = 0; i < shots.length; i++) {
+        if (controller.signal.aborted) return;
+        setExportProgress({ phase: 'rendering', title: 'Exporting your video', current: i + 1, total: shots.length });
+        const { slide, imageIndex, durationMs } = shots[i];
+        frames.push({ canvas: await renderSlideImage(slide, imageIndex), durationMs });
+      }
+
+      const video = await recordSlideshow(frames, {
+        format,
+        signal: controller.signal,
+        onProgress: (elapsedMs, totalMs) => setExportProgress({ phase: 'recording', title: 'Exporting your video', elapsedMs, totalMs })
+      });
+      downloadBlob(video, exportFilename(`.${format.extension}`));
+    } catch (err) {
+      if (!(err instanceof DOMException && err.name === 'AbortError')) {
+        console.error('Failed to export video:', err);
+        alert('Sorry, the video export failed. Please try again.');
+      }
+    } finally {
+      exportAbortRef.current = null;
+      setExportProgress(null);
+    }
+  };
+
+  const handleExportPassport = async () => {
+    try {
+      // jsPDF is only needed here, so keep it out of the main bundle
+      const { createPassportPdf } = await import("@/lib/passport-pdf");
+      const pdf = await createPassportPdf(data, periodText, (current, total) =>
+        setExportProgress({ phase: 'rendering', title: 'Printing your passport', current, total })
+      );
+      downloadBlob(pdf, exportFilename('-passport.pdf'));
+    } catch (err) {
+      console.error('Failed to create passport PDF:', err);
+      alert('Sorry, the passport could not be created. Please try again.');
+    } finally {
+      setExportProgress(null);
+    }
+  };
+
+  const handlePublish = async () => {
+    const controller = new AbortController();
+    exportAbortRef.current = controller;
+
+    try {
+      if (!publishedIdRef.current) {
+        publishedIdRef.current = await publishRecap(data, {
+          signal: controller.signal,
+          onProgress: (current, total) => setExportProgress({ phase: 'uploading', title: 'Publishing your recap', current, total })
+        });
+      }
+      setExportProgress(null);
+      const url = getPublishedRecapUrl(publishedIdRef.current);
+      if (navigator.share) {
+        await navigator.share({ title: 'Stamped Recap', text: `My ${periodText.label} travel recap`, url });
+      } else {
+        await navigator.clipboard.writeText(url);
+        alert('Link copied to clipboard!');
+      }
+    } catch (err) {
+      // Cancelling the upload or closing the share sheet isn't an error
+      if (!(err instanceof DOMException && err.name === 'AbortError')) {
+        console.error('Failed to publish recap:', err);
+        alert('Sorry, your recap could not be published. Please try again.');
+      }
+    } finally {
+      exportAbortRef.current = null;
+      setExportProgress(null);
+    }
+  };
+
+  const handleSaveProject = async () => {
+    if (!onSaveProject) return;
+    const controller = new AbortController();
+    exportAbortRef.current = controller;
+    setExportProgress({ phase: 'packing', title: 'Saving your recap', current: 0, total: 1 });
+
+    try {
+      const file = await onSaveProject({
+        signal: controller.signal,
+        onProgress: (current, total) => setExportProgress({ phase: 'packing', title: 'Saving your recap', current, total })
+      });
+      downloadBlob(file, exportFilename(PROJECT_FILE_EXTENSION));
+    } catch (err) {
+      if (!(err instanceof DOMException && err.name === 'AbortError')) {
+        console.error('Failed to save recap:', err);
+        alert('Sorry, your recap could not be saved. Please try again.');
+      }
+    } finally {
+      exportAbortRef.current = null;
+      setExportProgress(null);
+    }
+  };
+
+  // Photo-free version of the recap that lives entirely in the link
+  const handleShareLink = async () => {
+    const url = `${window.location.origin}/view#${encodeRecapLink(data, stats, mapData?.coordinates)}`;
+    try {
+      if (navigator.share) {
+        await navigator.share({ title: 'Stamped Recap', text: `My ${periodText.label} travel recap`, url });
+      } else {
+        await navigator.clipboard.writeText(url);
+        alert('Link copied to clipboard!');
+      }
+    } catch (err) {
+      if (!(err instanceof DOMException && err.name === 'AbortError')) {
+        console.error('Failed to share link:', err);
+      }
+    }
+  };
+
+  const cancelExport = () => {
+    exportAbortRef.current?.abort();
+  };
+
   return (
     <div 
-      ref={slideRef}
       className="min-h-screen bg-[#0B0101] flex flex-col cursor-pointer select-none"
       onClick={handleTap}
     >
@@ -345,69 +688,218 @@ export default function RecapStory({ data, onBack, onRestart }: RecapStoryProps)
 
       {/* Header */}
       <div className="absolute top-8 left-0 right-0 z-20 px-4 flex items-center justify-between">
-        <button 
-          onClick={(e) => { e.stopPropagation(); onBack(); }}
-          className="p-2 bg-[#233038] hover:bg-[#FF5B04] rounded-full transition-colors"
-        >
-          <ArrowLeft className="w-5 h-5 text-[#FDF6E3]" />
-        </button>
+        {onBack && !readOnly ? (
+          <button 
+            onClick={(e) => { e.stopPropagation(); onBack(); }}
+            className="p-2 bg-[#233038] hover:bg-[#FF5B04] rounded-full transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5 text-[#FDF6E3]" />
+          </button>
+        ) : (
+          <div className="w-9" />
+        )}
         <div className="flex items-center gap-2 bg-[#233038] rounded-full px-4 py-2 border border-[#075056]">
-          <span className="text-[#FDF6E3] text-sm font-medium">@{data.profile.username}</span>
+          <span className="text-[#FDF6E3] text-sm font-medium">{formatHandle(data.profile)}</span>
+        </div>
+        <div className="flex items-center gap-2">
+          {exportPresets.length > 1 && (
+            <button
+              onClick={(e) => { e.stopPropagation(); cycleExportPreset(); }}
+              disabled={!!exportProgress}
+              className="h-9 px-3 bg-[#233038] hover:bg-[#FF5B04] rounded-full text-[#FDF6E3] text-xs font-semibold transition-colors disabled:opacity-50"
+              title="Export size"
+            >
+              {exportPreset.label}
+            </button>
+          )}
+          <button 
+            onClick={(e) => { e.stopPropagation(); handleExportVideo(); }}
+            disabled={!!exportProgress}
+            className="p-2 bg-[#233038] hover:bg-[#FF5B04] rounded-full transition-colors disabled:opacity-50"
+            title="Export video"
+          >
+            <Film className="w-5 h-5 text-[#FDF6E3]" />
+          </button>
+          <button 
+            onClick={(e) => { e.stopPropagation(); handleExportImages(); }}
+            disabled={!!exportProgress}
+            className="p-2 bg-[#233038] hover:bg-[#FF5B04] rounded-full transition-colors disabled:opacity-50"
+            title="Download all slides"
+          >
+            <Images className="w-5 h-5 text-[#FDF6E3]" />
+          </button>
+          <button 
+            onClick={(e) => { e.stopPropagation(); handleShare(); }}
+            className="p-2 bg-[#233038] hover:bg-[#FF5B04] rounded-full transition-colors"
+          >
+            <Download className="w-5 h-5 text-[#FDF6E3]" />
+          </button>
+          {!readOnly && (
+            <button 
+              onClick={(e) => { e.stopPropagation(); handleShareLink(); }}
+              className="p-2 bg-[#233038] hover:bg-[#FF5B04] rounded-full transition-colors"
+              title="Share as a link, without photos"
+            >
+              <Link2 className="w-5 h-5 text-[#FDF6E3]" />
+            </button>
+          )}
+          {onSaveProject && !readOnly && (
+            <button
+              onClick={(e) => { e.stopPropagation(); handleSaveProject(); }}
+              disabled={!!exportProgress}
+              className="p-2 bg-[#233038] hover:bg-[#FF5B04] rounded-full transition-colors disabled:opacity-50"
+              title="Save recap to open later"
+            >
+              <Save className="w-5 h-5 text-[#FDF6E3]" />
+            </button>
+          )}
         </div>
-        <button 
-          onClick={(e) => { e.stopPropagation(); handleShare(); }}
-          className="p-2 bg-[#233038] hover:bg-[#FF5B04] rounded-full transition-colors"
-        >
-          <Download className="w-5 h-5 text-[#FDF6E3]" />
-        </button>
       </div>
 
       {/* Slide Content */}
       <div className={`flex-1 flex items-center justify-center transition-opacity duration-300 ${isAnimating ? 'opacity-0' : 'opacity-100'}`}>
-        {currentSlide.type === 'intro' && (
-          <IntroSlide profile={data.profile} totalDestinations={data.destinations.length} quarterlyData={quarterlyDestinations} />
-        )}
-        {currentSlide.type === 'quarter-intro' && (
-          <QuarterIntroSlide 
-            quarter={currentSlide.quarter}
-            quarterName={currentSlide.quarterName}
-            count={currentSlide.count}
-            destinations={currentSlide.destinations}
-          />
-        )}
-        {currentSlide.type === 'destination' && (
-          <DestinationSlide destination={currentSlide.destination} quarter={currentSlide.quarter} />
-        )}
-        {currentSlide.type === 'summary-intro' && (
-          <SummaryIntroSlide data={data} quarterlyData={quarterlyDestinations} />
-        )}
-        {currentSlide.type === 'top-spot' && (
-          <TopSpotSlide data={data} />
-        )}
-        {currentSlide.type === 'busiest-quarter' && (
-          <BusiestQuarterSlide quarterlyData={quarterlyDestinations} />
-        )}
-        {currentSlide.type === 'quarter-breakdown' && (
-          <QuarterBreakdownSlide quarterlyData={quarterlyDestinations} />
-        )}
-        {currentSlide.type === 'stamp-collection' && (
-          <StampCollectionSlide data={data} onShare={handleShare} onRestart={onRestart} goToPrevious={goToPrev} />
-        )}
+        <IllustratedContext.Provider value={illustrated}>
+          <ClipsContext.Provider value={clips}>
+            <SlideContent
+              slide={currentSlide}
+              data={data}
+              periodText={periodText}
+              quarterlyData={quarterlyDestinations}
+              mapData={mapData}
+              stats={stats}
+              onShare={handleShare}
+              onExportVideo={handleExportVideo}
+              onExportImages={handleExportImages}
+              onExportPassport={handleExportPassport}
+              onPublish={readOnly ? undefined : handlePublish}
+              onRestart={readOnly ? undefined : onRestart}
+              goToPrevious={goToPrev}
+            />
+          </ClipsContext.Provider>
+        </IllustratedContext.Provider>
       </div>
 
-
+      {/* Export progress */}
+      {exportProgress && (
+        <div
+          className="fixed inset-0 z-[60] bg-[#0B0101]/90 flex items-center justify-center p-6 cursor-default"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <div className="w-full max-w-sm bg-[#233038] border border-[#075056] rounded-2xl p-6 text-center">
+            <Loader2 className="w-10 h-10 text-[#FF5B04] mx-auto mb-4 animate-spin" />
+            <h3 className="text-[#FDF6E3] text-lg font-bold mb-1">{exportProgress.title}</h3>
+            <p className="text-[#D3DBDD] text-sm mb-4">
+              {exportProgress.phase === 'rendering'
+                ? `Rendering frame ${exportProgress.current} of ${exportProgress.total}`
+                : exportProgress.phase === 'uploading'
+                ? `Uploading photo ${exportProgress.current} of ${exportProgress.total}`
+                : exportProgress.phase === 'packing'
+                ? `Packing photo ${exportProgress.current} of ${exportProgress.total}`
+                : `Recording ${formatClock(exportProgress.elapsedMs)} / ${formatClock(exportProgress.totalMs)} - keep this tab open`}
+            </p>
+            <div className="h-2 bg-[#0B0101] rounded-full overflow-hidden mb-6">
+              <div
+                className="h-full bg-[#FF5B04] rounded-full transition-all duration-100"
+                style={{
+                  width: `${exportProgress.phase !== 'recording'
+                    ? (exportProgress.current / exportProgress.total) * 100
+                    : (exportProgress.elapsedMs / exportProgress.totalMs) * 100}%`
+                }}
+              />
+            </div>
+            <Button
+              onClick={cancelExport}
+              className="w-full h-12 bg-[#0B0101] hover:bg-[#075056] rounded-xl text-[#FDF6E3] border border-[#075056]"
+            >
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
 
-type QuarterlyData = Record<QuarterKey, TravelDestination[]>;
+interface SlideContentProps {
+  slide: StorySlide;
+  data: TravelRecapData;
+  periodText: RecapPeriodText;
+  quarterlyData: QuarterlyVisits;
+  mapData: MapData | null;
+  stats: RecapStats;
+  // Pins a destination slide to one photo instead of cycling
+  imageIndex?: number;
+  onShare?: () => void;
+  onExportVideo?: () => void;
+  onExportImages?: () => void;
+  onExportPassport?: () => void;
+  onPublish?: () => void;
+  onRestart?: () => void;
+  goToPrevious?: () => void;
+}
+
+// Renders a single slide; shared by the live story and the offscreen exporter
+function SlideContent({ slide, data, periodText, quarterlyData, mapData, stats, imageIndex, onShare, onExportVideo, onExportImages, onExportPassport, onPublish, onRestart, goToPrevious }: SlideContentProps) {
+  return (
+    <>
+      {slide.type === 'intro' && (
+        <IntroSlide profile={data.profile} periodText={periodText} totalDestinations={data.destinations.length} quarterlyData={quarterlyData} />
+      )}
+      {slide.type === 'quarter-intro' && (
+        <QuarterIntroSlide 
+          quarter={slide.quarter}
+          label={slide.label}
+          quarterName={slide.quarterName}
+          count={slide.count}
+          destinations={slide.destinations}
+        />
+      )}
+      {slide.type === 'destination' && (
+        <DestinationSlide destination={slide.destination} quarterLabel={slide.quarterLabel} imageIndex={imageIndex} />
+      )}
+      {slide.type === 'world-map' && (
+        <WorldMapSlide data={data} mapData={mapData} />
+      )}
+      {slide.type === 'route' && (
+        <RouteSlide data={data} mapData={mapData} stats={stats} />
+      )}
+      {slide.type === 'stats' && (
+        <StatsSlide stats={stats} />
+      )}
+      {slide.type === 'extremes' && (
+        <ExtremesSlide stats={stats} />
+      )}
+      {slide.type === 'summary-intro' && (
+        <SummaryIntroSlide data={data} periodText={periodText} quarterlyData={quarterlyData} />
+      )}
+      {slide.type === 'top-spot' && (
+        <TopSpotSlide data={data} />
+      )}
+      {slide.type === 'busiest-quarter' && (
+        <BusiestQuarterSlide quarterlyData={quarterlyData} />
+      )}
+      {slide.type === 'quarter-breakdown' && (
+        <QuarterBreakdownSlide quarterlyData={quarterlyData} />
+      )}
+      {slide.type === 'stamp-collection' && (
+        <StampCollectionSlide data={data} onShare={onShare} onExportVideo={onExportVideo} onExportImages={onExportImages} onExportPassport={onExportPassport} onPublish={onPublish} onRestart={onRestart} goToPrevious={goToPrevious} />
+      )}
+    </>
+  );
+}
 
 // Counter component with animation
 function AnimatedCounter({ value, className }: { value: number; className?: string }) {
   const ref = useRef<HTMLDivElement>(null);
-  const [displayValue, setDisplayValue] = useState(0);
+  const isStatic = useContext(StaticRenderContext);
+  const [displayValue, setDisplayValue] = useState(isStatic ? value : 0);
 
   useEffect(() => {
+    if (isStatic) {
+      setDisplayValue(value);
+      return;
+    }
+
     const duration = 1500;
     const startTime = performance.now();
     const startValue = 0;
@@ -424,7 +916,7 @@ function AnimatedCounter({ value, className }: { value: number; className?: stri
     };
 
     requestAnimationFrame(updateCounter);
-  }, [value]);
+  }, [value, isStatic]);
 
   return <div ref={ref} className={className}>{displayValue}</div>;
 }
@@ -453,19 +945,23 @@ const AnimatedTitle = ({ text, delay = 0 }: { text: string; delay?: number }) =>
   );
 };
 
-function IntroSlide({ profile, totalDestinations, quarterlyData }: { profile: TravelRecapData['profile']; totalDestinations: number; quarterlyData: QuarterlyData }) {
+function IntroSlide({ profile, periodText, totalDestinations, quarterlyData }: { profile: TravelRecapData['profile']; periodText: RecapPeriodText; totalDestinations: number; quarterlyData: QuarterlyVisits }) {
+  const illustrated = useContext(IllustratedContext);
   // Count active quarters
-  const activeQuartersCount = (['Q1', 'Q2', 'Q3', 'Q4'] as QuarterKey[]).filter(q => quarterlyData[q].length > 0).length;
+  const activeQuartersCount = quarterlyData.quarters.filter(q => q.visits.length > 0).length;
+  const allVisits = useMemo(
+    () => [...quarterlyData.quarters.flatMap(q => q.visits), ...quarterlyData.undated],
+    [quarterlyData]
+  );
   
   // Get all images for circular photo display
   // Note: d.images is string[] (URLs), not TravelImage objects
-  const allImages = useMemo(() => {
-    return Object.values(quarterlyData).flat().flatMap(d => d.images);
-  }, [quarterlyData]);
+  const allImages = useMemo(() => allVisits.flatMap(d => d.images), [allVisits]);
   
   // Use a consistent random opening (seeded by username)
-  const openingIndex = profile.username.length % OPENING_LINES.length;
-  const randomOpening = OPENING_LINES[openingIndex];
+  const openingLines = getOpeningLines(periodText);
+  const openingIndex = profile.username.length % openingLines.length;
+  const randomOpening = openingLines[openingIndex];
   
   // Positions for scattered circular photos (same size as stat circles)
   const photoPositions = [
@@ -545,7 +1041,7 @@ function IntroSlide({ profile, totalDestinations, quarterlyData }: { profile: Tr
           animate={{ opacity: 1, y: 0 }}
           transition={{ delay: 0.8, duration: 0.6 }}
         >
-          Your 2025<br />Stamped Recap
+          Your {periodText.label}<br />Stamped Recap
         </motion.h1>
         
         {/* Username with flair */}
@@ -555,7 +1051,7 @@ function IntroSlide({ profile, totalDestinations, quarterlyData }: { profile: Tr
           animate={{ opacity: 1, scale: 1 }}
           transition={{ delay: 1.2, type: "spring", stiffness: 200 }}
         >
-          @{profile.username}
+          {formatHandle(profile)}
         </motion.p>
         
         {/* Photo grid with integrated stat circles */}
@@ -607,7 +1103,7 @@ function IntroSlide({ profile, totalDestinations, quarterlyData }: { profile: Tr
               // Photo circles for remaining positions
               // Adjust photo index: positions 0-3 map to photos 0-3, positions 6-11 map to photos 4-9
               const photoIdx = gridIdx < 4 ? gridIdx : gridIdx - 2;
-              const imageUrl = allImages[photoIdx];
+              const imageUrl = allImages[photoIdx] && mediaCache.url(allImages[photoIdx], 'thumb');
               
               if (!imageUrl) {
                 return <div key={gridIdx} className="w-20 h-20" />;
@@ -660,8 +1156,25 @@ function IntroSlide({ profile, totalDestinations, quarterlyData }: { profile: Tr
             })}
           </div>
           
+          {/* Stamps stand in for the photos in an illustrated story */}
+          {allImages.length === 0 && illustrated && (
+            <div className="grid grid-cols-3 gap-4 px-6">
+              {allVisits.slice(0, 6).map((dest, idx) => (
+                <motion.div
+                  key={dest.id}
+                  className="w-20 h-20 flex items-center justify-center"
+                  initial={{ scale: 0, opacity: 0 }}
+                  animate={{ scale: 1, opacity: 1 }}
+                  transition={{ delay: 1.8 + (idx * 0.1), type: "spring" }}
+                >
+                  <PassportStamp destination={dest} className="w-20 h-20" />
+                </motion.div>
+              ))}
+            </div>
+          )}
+
           {/* Placeholder circles when no images */}
-          {allImages.length === 0 && (
+          {allImages.length === 0 && !illustrated && (
             <div className="grid grid-cols-3 gap-4 px-6">
               {[0, 1, 2, 3, 4, 5].map((idx) => (
                 <motion.div
@@ -686,20 +1199,23 @@ function IntroSlide({ profile, totalDestinations, quarterlyData }: { profile: Tr
   );
 }
 
-function QuarterIntroSlide({ quarter, quarterName, count, destinations }: { quarter: QuarterKey; quarterName: string; count: number; destinations: TravelDestination[] }) {
+function QuarterIntroSlide({ quarter, label, quarterName, count, destinations }: { quarter: QuarterKey; label: string; quarterName: string; count: number; destinations: TravelDestination[] }) {
   const info = QUARTER_CONTEXT[quarter];
+  const isStatic = useContext(StaticRenderContext);
   
   // Memoize the random fact so it doesn't change on re-renders
-  const randomFact = useMemo(() => getRandomItem(info.funFacts), [quarter]);
+  const randomFact = useMemo(() => isStatic ? info.funFacts[0] : getRandomItem(info.funFacts), [quarter, isStatic]);
   
   // Calculate total photos for this quarter
   const photoCount = destinations.reduce((sum, dest) => sum + dest.images.length, 0);
   
   // Count-up animation states
-  const [placesCount, setPlacesCount] = useState(0);
-  const [memoriesCount, setMemoriesCount] = useState(0);
+  const [placesCount, setPlacesCount] = useState(isStatic ? count : 0);
+  const [memoriesCount, setMemoriesCount] = useState(isStatic ? photoCount : 0);
   
   useEffect(() => {
+    if (isStatic) return;
+
     // Delay start to sync with animation
     const startDelay = setTimeout(() => {
       // Count up animation for Places
@@ -733,7 +1249,7 @@ function QuarterIntroSlide({ quarter, quarterName, count, destinations }: { quar
     }, 2000);
     
     return () => clearTimeout(startDelay);
-  }, [count, photoCount]);
+  }, [count, photoCount, isStatic]);
   
   return (
     <div className="absolute inset-0 bg-[#0B0101] overflow-hidden">
@@ -744,7 +1260,7 @@ function QuarterIntroSlide({ quarter, quarterName, count, destinations }: { quar
         {/* Large 3D seasonal image - rotate + scale in */}
         <motion.img 
           src={info.emoji} 
-          alt={quarter} 
+          alt={label} 
           className="w-32 h-32 mb-4 object-contain mx-auto"
           initial={{ scale: 0, rotate: -180 }}
           animate={{ scale: 1, rotate: 0 }}
@@ -758,7 +1274,7 @@ function QuarterIntroSlide({ quarter, quarterName, count, destinations }: { quar
           animate={{ y: 0, opacity: 1 }}
           transition={{ delay: 0.5, type: "spring", duration: 0.6 }}
         >
-          {quarter}
+          {label}
         </motion.div>
         
         {/* Subtitle */}
@@ -857,10 +1373,20 @@ function QuarterIntroSlide({ quarter, quarterName, count, destinations }: { quar
   );
 }
 
-function DestinationSlide({ destination, quarter }: { destination: TravelDestination; quarter: QuarterKey }) {
+function DestinationSlide({ destination, quarterLabel, imageIndex }: { destination: TravelDestination; quarterLabel: string; imageIndex?: number }) {
+  const illustrated = useContext(IllustratedContext);
   const displayName = getDestinationDisplayName(destination);
-  const [currentImageIndex, setCurrentImageIndex] = useState(0);
+  const clips = useContext(ClipsContext);
+  const [cycledImageIndex, setCurrentImageIndex] = useState(0);
+  const currentImageIndex = imageIndex ?? cycledImageIndex;
   const { images } = destination;
+  const durations = useMemo(() => getImageDurations(images, clips), [images, clips]);
+  const clip = clips.get(images[currentImageIndex]);
+  // Offscreen captures get the export-size copy renderSlideImage prepared
+  const isStatic = useContext(StaticRenderContext);
+  const imageSrc = images[currentImageIndex] && mediaCache.url(images[currentImageIndex], isStatic ? 'export' : 'slide');
+  // Destination slides are per visit, so there's at most one here
+  const visit = destination.visits?.[0];
   
   // Get month name from earliest timestamp
   const getMonthName = () => {
@@ -871,21 +1397,17 @@ function DestinationSlide({ destination, quarter }: { destination: TravelDestina
   };
   const monthName = getMonthName();
   
-  // Cycle through images if multiple - coordinate with slide duration
+  // Cycle through images if multiple - each stays up for its share of the
+  // slide duration, clips for their own length
   useEffect(() => {
-    if (images.length <= 1) return;
+    if (images.length <= 1 || imageIndex !== undefined) return;
     
-    // Calculate time per image: divide total slide duration by number of images
-    const imageCount = images.length;
-    const totalDuration = 8000 + (imageCount - 1) * 4000; // Same formula as slide duration
-    const timePerImage = totalDuration / imageCount;
+    const timer = setTimeout(() => {
+      setCurrentImageIndex(prev => (prev + 1) % images.length);
+    }, durations[cycledImageIndex]);
     
-    const interval = setInterval(() => {
-      setCurrentImageIndex(prev => (prev + 1) % imageCount);
-    }, timePerImage);
-    
-    return () => clearInterval(interval);
-  }, [images.length]);
+    return () => clearTimeout(timer);
+  }, [images.length, imageIndex, cycledImageIndex, durations]);
 
   // Reset image index when destination changes
   useEffect(() => {
@@ -898,18 +1420,36 @@ function DestinationSlide({ destination, quarter }: { destination: TravelDestina
     <div className="absolute inset-0 bg-black flex flex-col items-center justify-center overflow-hidden">
       {images.length > 0 ? (
         <div className="relative w-full h-full">
-          {/* Full-screen image with crossfade */}
+          {/* Full-screen image or muted clip with crossfade */}
           <AnimatePresence mode="wait">
-            <motion.img 
-              key={currentImageIndex}
-              src={images[currentImageIndex]} 
-              alt={displayName}
-              className="w-full h-full object-cover"
-              initial={{ opacity: 0 }}
-              animate={{ opacity: 1 }}
-              exit={{ opacity: 0 }}
-              transition={{ duration: 0.5, ease: "easeInOut" }}
-            />
+            {clip ? (
+              <motion.video
+                key={currentImageIndex}
+                src={clip.src}
+                poster={imageSrc}
+                aria-label={displayName}
+                className="w-full h-full object-cover"
+                autoPlay
+                muted
+                loop
+                playsInline
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+                transition={{ duration: 0.5, ease: "easeInOut" }}
+              />
+            ) : (
+              <motion.img 
+                key={currentImageIndex}
+                src={imageSrc} 
+                alt={displayName}
+                className="w-full h-full object-cover"
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+                transition={{ duration: 0.5, ease: "easeInOut" }}
+              />
+            )}
           </AnimatePresence>
           
           {/* Top badges */}
@@ -921,8 +1461,13 @@ function DestinationSlide({ destination, quarter }: { destination: TravelDestina
               animate={{ x: 0, opacity: 1 }}
               transition={{ delay: 0.2, type: "spring" }}
             >
-              <span>{quarter}</span>
-              {monthName && (
+              <span>{quarterLabel}</span>
+              {visit ? (
+                <>
+                  <span>•</span>
+                  <span>{formatVisitRange(visit)}</span>
+                </>
+              ) : monthName && (
                 <>
                   <span>•</span>
                   <span>{monthName}</span>
@@ -972,6 +1517,19 @@ function DestinationSlide({ destination, quarter }: { destination: TravelDestina
               </motion.p>
             )}
             
+            {/* Visit length, and which visit this was for repeat trips */}
+            {visit && (
+              <motion.p 
+                className="text-[#F4D47C] text-base font-medium mb-3"
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ duration: 0.4, delay: 0.15, ease: "easeOut" }}
+              >
+                {visit.days} {visit.days === 1 ? 'day' : 'days'}
+                {visit.visitNumber > 1 && ` • Visit #${visit.visitNumber}`}
+              </motion.p>
+            )}
+            
             {/* Fun message with accent bar */}
             <motion.div 
               className="flex items-center gap-3 mb-3"
@@ -1013,7 +1571,7 @@ function DestinationSlide({ destination, quarter }: { destination: TravelDestina
           animate={{ opacity: 1, scale: 1 }}
           transition={{ duration: 0.5 }}
         >
-          <StampCard destination={destination} size="lg" isActive />
+          <StampCard destination={destination} size="lg" isActive variant={illustrated ? 'stamp' : 'photo'} />
           <motion.h2 
             className="text-3xl font-bold text-[#FDF6E3] mt-6"
             initial={{ opacity: 0, y: 20 }}
@@ -1028,22 +1586,29 @@ function DestinationSlide({ destination, quarter }: { destination: TravelDestina
             animate={{ opacity: 1, scale: 1 }}
             transition={{ delay: 0.5, type: "spring" }}
           >
-            <span className="text-white font-medium">{quarter}</span>
-            {monthName && (
+            <span className="text-white font-medium">{quarterLabel}</span>
+            {visit ? (
+              <>
+                <span className="text-white/60">•</span>
+                <span className="text-white font-medium">{formatVisitRange(visit)}</span>
+              </>
+            ) : monthName && (
               <>
                 <span className="text-white/60">•</span>
                 <span className="text-white font-medium">{monthName}</span>
               </>
             )}
           </motion.div>
-          <motion.p 
-            className="text-[#D3DBDD] mt-4 text-sm flex items-center justify-center gap-1"
-            initial={{ opacity: 0 }}
-            animate={{ opacity: 1 }}
-            transition={{ delay: 0.7 }}
-          >
-            No photos uploaded for this destination <img src="/images/camera.webp" alt="Camera" className="w-4 h-4 object-contain" />
-          </motion.p>
+          {!illustrated && (
+            <motion.p 
+              className="text-[#D3DBDD] mt-4 text-sm flex items-center justify-center gap-1"
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              transition={{ delay: 0.7 }}
+            >
+              No photos uploaded for this destination <img src="/images/camera.webp" alt="Camera" className="w-4 h-4 object-contain" />
+            </motion.p>
+          )}
         </motion.div>
       )}
     </div>
@@ -1051,14 +1616,15 @@ function DestinationSlide({ destination, quarter }: { destination: TravelDestina
 }
 
 // Summary Slide 1: Intro Stats
-function SummaryIntroSlide({ data, quarterlyData }: { data: TravelRecapData; quarterlyData: QuarterlyData }) {
+function SummaryIntroSlide({ data, periodText, quarterlyData }: { data: TravelRecapData; periodText: RecapPeriodText; quarterlyData: QuarterlyVisits }) {
   const totalPhotos = data.destinations.reduce((sum, d) => sum + d.images.length, 0);
   const countries = [...new Set(data.destinations.map(d => d.country))];
   const cities = data.destinations.filter(d => d.type === 'city');
   
   // Use a consistent random opening (seeded by username)
-  const openingIndex = data.profile.username.length % OPENING_LINES.length;
-  const randomMessage = OPENING_LINES[openingIndex];
+  const openingLines = getOpeningLines(periodText);
+  const openingIndex = data.profile.username.length % openingLines.length;
+  const randomMessage = openingLines[openingIndex];
   
   return (
     <div className="absolute inset-0 bg-[#0B0101] flex flex-col items-center justify-center p-8 overflow-hidden">
@@ -1079,7 +1645,7 @@ function SummaryIntroSlide({ data, quarterlyData }: { data: TravelRecapData; qua
         animate={{ opacity: 1, scale: 1 }}
         transition={{ delay: 0.3, duration: 0.6, type: "spring" }}
       >
-        Your 2025 Journey
+        Your {periodText.label} Journey
       </motion.h1>
       
       {/* Username - slide in from right */}
@@ -1089,7 +1655,7 @@ function SummaryIntroSlide({ data, quarterlyData }: { data: TravelRecapData; qua
         animate={{ opacity: 1, x: 0 }}
         transition={{ delay: 0.6 }}
       >
-        @{data.profile.username}
+        {formatHandle(data.profile)}
       </motion.p>
       
       {/* Powered by */}
@@ -1195,6 +1761,399 @@ function SummaryIntroSlide({ data, quarterlyData }: { data: TravelRecapData; qua
   );
 }
 
+// Map Slides: World Map and Route (shown before the summary)
+// Map viewBox, roughly the width of a phone screen
+const MAP_WIDTH = 340;
+const MAP_HEIGHT = 180;
+
+function WorldMapSlide({ data, mapData }: { data: TravelRecapData; mapData: MapData | null }) {
+  const ordered = useMemo(() => [...data.destinations].sort((a, b) => a.visitOrder - b.visitOrder), [data.destinations]);
+
+  // Countries in the order they were first visited
+  const visitedCountries = useMemo(() => [...new Set(ordered.map(d => d.country))], [ordered]);
+
+  const projection = useMemo(
+    () => geoNaturalEarth1().fitExtent([[4, 4], [MAP_WIDTH - 4, MAP_HEIGHT - 4]], { type: 'Sphere' }),
+    []
+  );
+  const path = useMemo(() => geoPath(projection), [projection]);
+
+  // Spread the reveal over about five seconds however many places there are
+  const step = Math.min(0.5, 5 / Math.max(ordered.length, 1));
+  const revealDelay = (index: number) => 1 + index * step;
+
+  const pins = ordered
+    .map((dest, i) => {
+      const coords = mapData?.coordinates.get(dest.id);
+      const point = coords ? projection([coords.lng, coords.lat]) : null;
+      return point ? { id: dest.id, x: point[0], y: point[1], delay: revealDelay(i) } : null;
+    })
+    .filter((pin): pin is { id: string; x: number; y: number; delay: number } => !!pin);
+
+  return (
+    <div className="absolute inset-0 bg-[#0B0101] flex flex-col items-center justify-center p-6 overflow-hidden">
+      <div className="absolute top-0 left-0 w-96 h-96 bg-gradient-to-br from-[#2563EB]/25 via-[#075056]/20 to-transparent rounded-full blur-3xl" />
+
+      <motion.h1
+        className="relative text-4xl font-bold text-[#FDF6E3] mb-2 text-center"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+      >
+        Your World
+      </motion.h1>
+      <motion.p
+        className="relative text-[#D3DBDD] mb-8 text-center"
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        transition={{ delay: 0.3 }}
+      >
+        {visitedCountries.length} {visitedCountries.length === 1 ? 'country' : 'countries'} • {ordered.length} {ordered.length === 1 ? 'place' : 'places'}
+      </motion.p>
+
+      <motion.div
+        className="relative w-full"
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        transition={{ delay: 0.4, duration: 0.6 }}
+      >
+        {mapData ? (
+          <svg viewBox={`0 0 ${MAP_WIDTH} ${MAP_HEIGHT}`} className="w-full h-auto">
+            <path d={path({ type: 'Sphere' }) ?? undefined} fill="#233038" opacity="0.5" />
+            {mapData.countries.map((country, i) => {
+              if (!visitedCountries.includes(country.properties.name)) {
+                return <path key={i} d={path(country) ?? undefined} fill="#233038" stroke="#0B0101" strokeWidth="0.3" />;
+              }
+              return (
+                <motion.path
+                  key={i}
+                  d={path(country) ?? undefined}
+                  stroke="#0B0101"
+                  strokeWidth="0.3"
+                  initial={{ fill: '#233038' }}
+                  animate={{ fill: '#FF5B04' }}
+                  transition={{ delay: revealDelay(ordered.findIndex(d => d.country === country.properties.name)), duration: 0.4 }}
+                />
+              );
+            })}
+            {pins.map(pin => (
+              <motion.g
+                key={pin.id}
+                initial={{ opacity: 0, scale: 0 }}
+                animate={{ opacity: 1, scale: 1 }}
+                transition={{ delay: pin.delay, type: "spring", stiffness: 300 }}
+                style={{ transformOrigin: `${pin.x}px ${pin.y}px` }}
+              >
+                <circle cx={pin.x} cy={pin.y} r="4" fill="#F4D47C" opacity="0.35" />
+                <circle cx={pin.x} cy={pin.y} r="2" fill="#F4D47C" stroke="#0B0101" strokeWidth="0.5" />
+              </motion.g>
+            ))}
+          </svg>
+        ) : (
+          <div className="w-full aspect-[17/9] rounded-2xl bg-[#233038]/50 animate-pulse" />
+        )}
+      </motion.div>
+
+      {/* Countries in visit order */}
+      <div className="relative flex flex-wrap justify-center gap-2 mt-8 max-w-sm">
+        {visitedCountries.slice(0, 8).map((country, i) => (
+          <motion.span
+            key={country}
+            className="px-3 py-1 rounded-full bg-[#233038] border border-[#075056] text-[#FDF6E3] text-xs"
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: revealDelay(ordered.findIndex(d => d.country === country)) }}
+          >
+            {country}
+          </motion.span>
+        ))}
+        {visitedCountries.length > 8 && (
+          <span className="px-3 py-1 rounded-full bg-[#233038] text-[#D3DBDD] text-xs">
+            +{visitedCountries.length - 8} more
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
+
+const ROUTE_HEIGHT = 300;
+// Stop zooming in past roughly country level when the whole trip was local
+const MAX_ROUTE_SCALE = 900;
+const FLIGHT_DURATION = 6;
+
+// Draws the same journey the stats slide measures, so both show one distance
+function RouteSlide({ data, mapData, stats }: { data: TravelRecapData; mapData: MapData | null; stats: RecapStats }) {
+  const route = useMemo(
+    () => mapData ? buildJourney(data, { coordinates: mapData.coordinates, home: data.profile.home?.coordinates }) : [],
+    [data, mapData]
+  );
+  const samples = useMemo(() => sampleRoute(route), [route]);
+  const distanceKm = stats.totalDistanceKm;
+
+  // Frame the route rather than the whole world
+  const projection = useMemo(() => {
+    const extent: [[number, number], [number, number]] = [[24, 24], [MAP_WIDTH - 24, ROUTE_HEIGHT - 24]];
+    if (samples.length < 2) {
+      return geoNaturalEarth1().fitExtent(extent, { type: 'Sphere' });
+    }
+    const points = { type: 'MultiPoint' as const, coordinates: samples };
+    const projection = geoNaturalEarth1()
+      .rotate([-geoCentroid(points)[0], 0])
+      .fitExtent(extent, points);
+    if (projection.scale() > MAX_ROUTE_SCALE) {
+      projection.scale(MAX_ROUTE_SCALE);
+      const projected = samples.map(p => projection(p)!);
+      const xs = projected.map(p => p[0]);
+      const ys = projected.map(p => p[1]);
+      const [tx, ty] = projection.translate();
+      projection.translate([
+        tx + MAP_WIDTH / 2 - (Math.min(...xs) + Math.max(...xs)) / 2,
+        ty + ROUTE_HEIGHT / 2 - (Math.min(...ys) + Math.max(...ys)) / 2
+      ]);
+    }
+    return projection;
+  }, [samples]);
+  const path = useMemo(() => geoPath(projection), [projection]);
+
+  const flight = samples.map(p => projection(p)).filter((p): p is [number, number] => !!p);
+  // The plane artwork faces left; mirror it on eastbound legs
+  const facing = flight.map((p, i) => {
+    const next = flight[Math.min(i + 1, flight.length - 1)];
+    const prev = flight[Math.max(i - 1, 0)];
+    return next[0] - prev[0] > 0 ? -1 : 1;
+  });
+
+  const aroundTheWorld = distanceKm / EARTH_CIRCUMFERENCE_KM;
+
+  return (
+    <div className="absolute inset-0 bg-[#0B0101] flex flex-col items-center justify-center p-6 overflow-hidden">
+      <div className="absolute bottom-0 right-0 w-96 h-96 bg-gradient-to-tl from-[#FF5B04]/25 via-[#2563EB]/15 to-transparent rounded-full blur-3xl" />
+
+      <motion.h1
+        className="relative text-4xl font-bold text-[#FDF6E3] mb-6 text-center"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+      >
+        Your Route
+      </motion.h1>
+
+      <motion.div
+        className="relative w-full rounded-2xl overflow-hidden border border-[#075056]"
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        transition={{ delay: 0.3, duration: 0.5 }}
+      >
+        {mapData ? (
+          <svg viewBox={`0 0 ${MAP_WIDTH} ${ROUTE_HEIGHT}`} className="w-full h-auto bg-[#0B0101]">
+            {mapData.countries.map((country, i) => (
+              <path key={i} d={path(country) ?? undefined} fill="#233038" stroke="#0B0101" strokeWidth="0.4" />
+            ))}
+            <motion.path
+              d={path({ type: 'LineString', coordinates: route.map(p => [p.lng, p.lat]) }) ?? undefined}
+              fill="none"
+              stroke="#FF5B04"
+              strokeWidth="1.5"
+              strokeDasharray="4 3"
+              initial={{ pathLength: 0 }}
+              animate={{ pathLength: 1 }}
+              transition={{ delay: 1, duration: FLIGHT_DURATION, ease: "linear" }}
+            />
+            {route.map((stop, i) => {
+              const point = projection([stop.lng, stop.lat]);
+              return point && (
+                <circle key={i} cx={point[0]} cy={point[1]} r="3" fill="#F4D47C" stroke="#0B0101" strokeWidth="0.8" />
+              );
+            })}
+            {flight.length > 1 && (
+              <motion.g
+                initial={{ x: flight[0][0], y: flight[0][1] }}
+                animate={{ x: flight.map(p => p[0]), y: flight.map(p => p[1]) }}
+                transition={{ delay: 1, duration: FLIGHT_DURATION, ease: "linear" }}
+              >
+                <motion.g
+                  initial={{ scaleX: facing[0] }}
+                  animate={{ scaleX: facing }}
+                  transition={{ delay: 1, duration: FLIGHT_DURATION, ease: "linear" }}
+                >
+                  <image href="/images/airplane.webp" x="-11" y="-11" width="22" height="22" />
+                </motion.g>
+              </motion.g>
+            )}
+          </svg>
+        ) : (
+          <div className="w-full aspect-[34/30] bg-[#233038]/50 animate-pulse" />
+        )}
+      </motion.div>
+
+      <motion.div
+        className="relative text-center mt-8"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 1.5 }}
+      >
+        <AnimatedCounter value={distanceKm} className="text-5xl font-bold text-[#FF5B04]" />
+        <p className="text-[#FDF6E3] text-lg font-medium">kilometres travelled</p>
+        <p className="text-[#D3DBDD] text-sm mt-2">
+          {aroundTheWorld >= 1
+            ? `That's ${aroundTheWorld.toFixed(1)}× around the world 🌍`
+            : `That's ${Math.max(1, Math.round(aroundTheWorld * 100))}% of the way around the world 🌍`}
+        </p>
+      </motion.div>
+    </div>
+  );
+}
+
+// Stats Slides: By the Numbers and Extremes
+const CONTINENT_EMOJI: Record<Continent, string> = {
+  'Africa': '🌍',
+  'Europe': '🏰',
+  'Asia': '🏯',
+  'North America': '🗽',
+  'South America': '🌎',
+  'Oceania': '🏝️'
+};
+
+function StatsSlide({ stats }: { stats: RecapStats }) {
+  const tiles = [
+    { value: stats.totalDistanceKm, label: 'kilometres covered' },
+    { value: stats.daysAway, label: stats.daysAway === 1 ? 'day on the road' : 'days on the road' },
+    { value: stats.countriesVisited, label: stats.countriesVisited === 1 ? 'country' : 'countries' },
+    { value: stats.continents.length, label: stats.continents.length === 1 ? 'continent' : 'continents' }
+  ];
+
+  return (
+    <div className="absolute inset-0 bg-[#0B0101] flex flex-col items-center justify-center p-8 overflow-hidden">
+      <div className="absolute top-0 left-0 w-96 h-96 bg-gradient-to-br from-[#075056]/40 via-[#2563EB]/15 to-transparent rounded-full blur-3xl" />
+
+      <motion.h2
+        className="relative text-[#FDF6E3] text-3xl font-bold mb-8 text-center"
+        initial={{ y: -50, opacity: 0 }}
+        animate={{ y: 0, opacity: 1 }}
+        transition={{ type: "spring" }}
+      >
+        By the Numbers
+      </motion.h2>
+
+      <motion.div
+        className="relative grid grid-cols-2 gap-4 w-full max-w-md"
+        variants={staggerContainerSlow}
+        initial="hidden"
+        animate="visible"
+      >
+        {tiles.map((tile, i) => (
+          <motion.div
+            key={tile.label}
+            className="bg-[#233038] rounded-2xl p-5 text-center border-2 border-[#075056]"
+            variants={flip3D}
+            transition={{ delay: 0.3 + i * 0.15 }}
+          >
+            <AnimatedCounter value={tile.value} className="text-[#FF5B04] text-4xl font-bold mb-1" />
+            <div className="text-[#D3DBDD] text-sm font-medium">{tile.label}</div>
+          </motion.div>
+        ))}
+      </motion.div>
+
+      <motion.p
+        className="relative text-[#FDF6E3] text-lg font-medium text-center mt-8"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 1.2 }}
+      >
+        That's <span className="text-[#F4D47C] font-bold">{stats.worldCountriesPercent}%</span> of the world's countries
+      </motion.p>
+
+      {stats.continents.length > 0 && (
+        <motion.div
+          className="relative flex flex-wrap justify-center gap-2 mt-4 max-w-md"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ delay: 1.5 }}
+        >
+          {stats.continents.map(continent => (
+            <span key={continent} className="px-3 py-1 rounded-full bg-[#075056] text-[#FDF6E3] text-sm">
+              {CONTINENT_EMOJI[continent]} {continent}
+            </span>
+          ))}
+        </motion.div>
+      )}
+    </div>
+  );
+}
+
+// "Rome → Florence → Venice", collapsing repeat stops and long itineraries
+const formatTripStops = (trip: TripStat) => {
+  const names = trip.stops
+    .map(stop => stop.name)
+    .filter((name, i, all) => i === 0 || all[i - 1] !== name);
+  return names.length > 3 ? `${names.slice(0, 3).join(' → ')} +${names.length - 3}` : names.join(' → ');
+};
+
+function ExtremesSlide({ stats }: { stats: RecapStats }) {
+  const { longestTrip, northernmost, southernmost, furthestFromHome } = stats;
+  const records = [
+    longestTrip && {
+      emoji: '🧳',
+      title: 'Longest trip',
+      value: `${longestTrip.days} ${longestTrip.days === 1 ? 'day' : 'days'}`,
+      detail: `${formatTripStops(longestTrip)} · ${format(longestTrip.startTimestamp, 'MMM d')}${longestTrip.days > 1 ? ` – ${format(longestTrip.endTimestamp, 'MMM d')}` : ''}`
+    },
+    furthestFromHome && {
+      emoji: '🏠',
+      title: 'Furthest from home',
+      value: `${Math.round(furthestFromHome.distanceKm).toLocaleString()} km`,
+      detail: getDestinationDisplayName(furthestFromHome.destination)
+    },
+    northernmost && {
+      emoji: '🧭',
+      title: 'Furthest north',
+      value: `${Math.abs(northernmost.coordinates.lat).toFixed(1)}°${northernmost.coordinates.lat >= 0 ? 'N' : 'S'}`,
+      detail: getDestinationDisplayName(northernmost.destination)
+    },
+    southernmost && southernmost.destination.id !== northernmost?.destination.id && {
+      emoji: '🌴',
+      title: 'Furthest south',
+      value: `${Math.abs(southernmost.coordinates.lat).toFixed(1)}°${southernmost.coordinates.lat >= 0 ? 'N' : 'S'}`,
+      detail: getDestinationDisplayName(southernmost.destination)
+    }
+  ].filter((record): record is { emoji: string; title: string; value: string; detail: string } => !!record);
+
+  return (
+    <div className="absolute inset-0 bg-[#0B0101] flex flex-col items-center justify-center p-8 overflow-hidden">
+      <div className="absolute bottom-0 left-0 w-96 h-96 bg-gradient-to-tr from-[#FF5B04]/25 via-[#F4D47C]/10 to-transparent rounded-full blur-3xl" />
+
+      <motion.h2
+        className="relative text-[#FDF6E3] text-3xl font-bold mb-8 text-center"
+        initial={{ y: -50, opacity: 0 }}
+        animate={{ y: 0, opacity: 1 }}
+        transition={{ type: "spring" }}
+      >
+        Record Breakers
+      </motion.h2>
+
+      <div className="relative w-full max-w-md space-y-3">
+        {records.map((record, i) => (
+          <motion.div
+            key={record.title}
+            className="flex items-center gap-4 bg-[#233038] rounded-2xl p-4 border border-[#075056]"
+            initial={{ opacity: 0, x: -40 }}
+            animate={{ opacity: 1, x: 0 }}
+            transition={{ delay: 0.3 + i * 0.25, type: "spring" }}
+          >
+            <span className="text-3xl">{record.emoji}</span>
+            <div className="flex-1 min-w-0">
+              <p className="text-[#D3DBDD] text-xs uppercase tracking-wider">{record.title}</p>
+              <p className="text-[#FF5B04] text-2xl font-bold">{record.value}</p>
+              <p className="text-[#FDF6E3] text-sm truncate">{record.detail}</p>
+            </div>
+          </motion.div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 // Summary Slide 2: Top Spot
 function TopSpotSlide({ data }: { data: TravelRecapData }) {
   // Find most visited place (most photos)
@@ -1312,8 +2271,8 @@ function TopSpotSlide({ data }: { data: TravelRecapData }) {
 }
 
 // Summary Slide 3: Busiest Quarter
-function BusiestQuarterSlide({ quarterlyData }: { quarterlyData: QuarterlyData }) {
-  const activeQuarters = (['Q1', 'Q2', 'Q3', 'Q4'] as QuarterKey[]).filter(q => quarterlyData[q].length > 0);
+function BusiestQuarterSlide({ quarterlyData }: { quarterlyData: QuarterlyVisits }) {
+  const activeQuarters = quarterlyData.quarters.filter(q => q.visits.length > 0);
   
   if (activeQuarters.length === 0) {
     return (
@@ -1351,7 +2310,7 @@ function BusiestQuarterSlide({ quarterlyData }: { quarterlyData: QuarterlyData }
   }
   
   const busiestQuarter = activeQuarters.reduce((max, q) => 
-    quarterlyData[q].length > quarterlyData[max].length ? q : max, activeQuarters[0]);
+    q.visits.length > max.visits.length ? q : max, activeQuarters[0]);
   
   return (
     <div className="absolute inset-0 bg-gradient-to-br from-[#2563EB] to-[#1E40AF] flex flex-col items-center justify-center p-8 overflow-hidden">
@@ -1390,7 +2349,7 @@ function BusiestQuarterSlide({ quarterlyData }: { quarterlyData: QuarterlyData }
           textShadow: { delay: 0.8, duration: 1.5, repeat: Infinity }
         }}
       >
-        {busiestQuarter}
+        {busiestQuarter.label}
       </motion.h1>
       
       {/* Quarter name - letter spacing expand */}
@@ -1400,7 +2359,7 @@ function BusiestQuarterSlide({ quarterlyData }: { quarterlyData: QuarterlyData }
         animate={{ opacity: 1, letterSpacing: "0.05em" }}
         transition={{ delay: 0.8, duration: 0.6 }}
       >
-        {QUARTER_NAMES[busiestQuarter]}
+        {QUARTER_NAMES[busiestQuarter.quarter]}
       </motion.p>
       
       {/* Stats - count up */}
@@ -1410,7 +2369,7 @@ function BusiestQuarterSlide({ quarterlyData }: { quarterlyData: QuarterlyData }
         animate={{ opacity: 1, y: 0 }}
         transition={{ delay: 1.2 }}
       >
-        {quarterlyData[busiestQuarter].length} destinations • You were on fire! 🔥
+        {busiestQuarter.visits.length} destinations • You were on fire! 🔥
       </motion.p>
       
       {/* Quarter breakdown mini grid - wave cascade */}
@@ -1420,9 +2379,9 @@ function BusiestQuarterSlide({ quarterlyData }: { quarterlyData: QuarterlyData }
         animate={{ opacity: 1, y: 0 }}
         transition={{ delay: 1.4 }}
       >
-        {(['Q1', 'Q2', 'Q3', 'Q4'] as QuarterKey[]).map((q, i) => (
+        {quarterlyData.quarters.map((q, i) => (
           <motion.div 
-            key={q} 
+            key={q.key} 
             className={`rounded-xl p-4 text-center ${q === busiestQuarter ? 'bg-white' : 'bg-white/20'}`}
             initial={{ scale: 0, opacity: 0 }}
             animate={{ 
@@ -1438,9 +2397,9 @@ function BusiestQuarterSlide({ quarterlyData }: { quarterlyData: QuarterlyData }
             whileHover={{ scale: 1.1 }}
           >
             <div className={`text-3xl font-bold ${q === busiestQuarter ? 'text-[#2563EB]' : 'text-white'}`}>
-              {quarterlyData[q]?.length || 0}
+              {q.visits.length}
             </div>
-            <div className={`text-sm ${q === busiestQuarter ? 'text-[#2563EB]' : 'text-white/80'}`}>{q}</div>
+            <div className={`text-sm ${q === busiestQuarter ? 'text-[#2563EB]' : 'text-white/80'}`}>{q.label}</div>
           </motion.div>
         ))}
       </motion.div>
@@ -1449,7 +2408,10 @@ function BusiestQuarterSlide({ quarterlyData }: { quarterlyData: QuarterlyData }
 }
 
 // Summary Slide 4: Quarter by Quarter
-function QuarterBreakdownSlide({ quarterlyData }: { quarterlyData: QuarterlyData }) {
+function QuarterBreakdownSlide({ quarterlyData }: { quarterlyData: QuarterlyVisits }) {
+  // A period crossing New Year touches five or more quarters; shrink the cards to fit
+  const compact = quarterlyData.quarters.length > 4;
+
   return (
     <div className="absolute inset-0 bg-[#0B0101] flex flex-col items-center justify-center p-8 overflow-hidden">
       {/* Header - slide in */}
@@ -1472,27 +2434,27 @@ function QuarterBreakdownSlide({ quarterlyData }: { quarterlyData: QuarterlyData
       
       {/* Large quarter grid - 3D flip reveal in sequence */}
       <motion.div 
-        className="grid grid-cols-2 gap-6 w-full max-w-md"
+        className={`grid w-full max-w-md ${compact ? 'grid-cols-3 gap-3' : 'grid-cols-2 gap-6'}`}
         variants={staggerContainerSlow}
         initial="hidden"
         animate="visible"
       >
-        {(['Q1', 'Q2', 'Q3', 'Q4'] as QuarterKey[]).map((q, i) => (
+        {quarterlyData.quarters.map((q, i) => (
           <motion.div 
-            key={q} 
-            className="bg-[#233038] rounded-2xl p-8 text-center border-2 border-[#075056]"
+            key={q.key} 
+            className={`bg-[#233038] rounded-2xl text-center border-2 border-[#075056] ${compact ? 'p-4' : 'p-8'}`}
             variants={flip3D}
             transition={{ delay: 0.4 + i * 0.2 }}
             whileHover={{ scale: 1.05, borderColor: "#FF5B04" }}
           >
-            <AnimatedCounter value={quarterlyData[q]?.length || 0} className="text-[#FF5B04] text-7xl font-bold mb-3" />
+            <AnimatedCounter value={q.visits.length} className={`text-[#FF5B04] font-bold mb-3 ${compact ? 'text-4xl' : 'text-7xl'}`} />
             <motion.div 
-              className="text-[#D3DBDD] text-xl font-semibold"
+              className={`text-[#D3DBDD] font-semibold ${compact ? 'text-sm' : 'text-xl'}`}
               initial={{ opacity: 0 }}
               animate={{ opacity: 1 }}
               transition={{ delay: 0.8 + i * 0.2 }}
             >
-              {q}
+              {q.label}
             </motion.div>
             <motion.div 
               className="text-[#D3DBDD]/60 text-sm mt-1"
@@ -1500,7 +2462,7 @@ function QuarterBreakdownSlide({ quarterlyData }: { quarterlyData: QuarterlyData
               animate={{ opacity: 1 }}
               transition={{ delay: 1 + i * 0.2 }}
             >
-              {quarterlyData[q]?.length === 1 ? 'place' : 'places'}
+              {q.visits.length === 1 ? 'place' : 'places'}
             </motion.div>
           </motion.div>
         ))}
@@ -1510,9 +2472,14 @@ function QuarterBreakdownSlide({ quarterlyData }: { quarterlyData: QuarterlyData
 }
 
 // Summary Slide 5: Stamp Collection + Download
-function StampCollectionSlide({ data, onShare, onRestart, goToPrevious }: { data: TravelRecapData; onShare: () => void; onRestart: () => void; goToPrevious: () => void }) {
+function StampCollectionSlide({ data, onShare, onExportVideo, onExportImages, onExportPassport, onPublish, onRestart, goToPrevious }: { data: TravelRecapData; onShare?: () => void; onExportVideo?: () => void; onExportImages?: () => void; onExportPassport?: () => void; onPublish?: () => void; onRestart?: () => void; goToPrevious?: () => void }) {
+  // Exported images leave out the buttons but keep the layout
+  const isStatic = useContext(StaticRenderContext);
+  const illustrated = useContext(IllustratedContext);
+  const [stampVariant, setStampVariant] = useState<'photo' | 'stamp'>(illustrated ? 'stamp' : 'photo');
+
   return (
-    <div className="relative w-full h-screen bg-[#0B0101] overflow-hidden" onClick={(e) => e.stopPropagation()}>
+    <div className={`${isStatic ? 'absolute inset-0' : 'relative w-full h-screen'} bg-[#0B0101] overflow-hidden`} onClick={(e) => e.stopPropagation()}>
       {/* Bottom-right glow - background layer */}
       <div className="absolute bottom-0 right-0 w-96 h-96 bg-gradient-to-tl from-[#FF5B04]/30 via-[#2563EB]/20 to-transparent rounded-full blur-3xl -z-10" />
       
@@ -1523,23 +2490,39 @@ function StampCollectionSlide({ data, onShare, onRestart, goToPrevious }: { data
           {/* Back button (left) */}
           <button 
             onClick={goToPrevious}
-            className="w-12 h-12 bg-[#233038] hover:bg-[#2C3E47] rounded-full flex items-center justify-center transition-colors"
+            className={`w-12 h-12 bg-[#233038] hover:bg-[#2C3E47] rounded-full flex items-center justify-center transition-colors ${isStatic ? 'invisible' : ''}`}
           >
             <ArrowLeft className="w-6 h-6 text-[#D3DBDD]" />
           </button>
           
           {/* Username badge (center) */}
           <div className="bg-[#233038] px-6 py-3 rounded-full">
-            <span className="text-white font-medium">@{data.profile.username}</span>
+            <span className="text-white font-medium">{formatHandle(data.profile)}</span>
           </div>
           
-          {/* Download button (right) */}
-          <button 
-            onClick={onShare}
-            className="w-12 h-12 bg-[#233038] hover:bg-[#2C3E47] rounded-full flex items-center justify-center transition-colors"
-          >
-            <Download className="w-6 h-6 text-[#D3DBDD]" />
-          </button>
+          {/* Export buttons (right) */}
+          <div className={`flex items-center gap-2 ${isStatic ? 'invisible' : ''}`}>
+            <button 
+              onClick={onExportVideo}
+              className="w-12 h-12 bg-[#233038] hover:bg-[#2C3E47] rounded-full flex items-center justify-center transition-colors"
+              title="Export video"
+            >
+              <Film className="w-6 h-6 text-[#D3DBDD]" />
+            </button>
+            <button 
+              onClick={onExportImages}
+              className="w-12 h-12 bg-[#233038] hover:bg-[#2C3E47] rounded-full flex items-center justify-center transition-colors"
+              title="Download all slides"
+            >
+              <Images className="w-6 h-6 text-[#D3DBDD]" />
+            </button>
+            <button 
+              onClick={onShare}
+              className="w-12 h-12 bg-[#233038] hover:bg-[#2C3E47] rounded-full flex items-center justify-center transition-colors"
+            >
+              <Download className="w-6 h-6 text-[#D3DBDD]" />
+            </button>
+          </div>
         </div>
       </div>
       
@@ -1566,6 +2549,23 @@ function StampCollectionSlide({ data, onShare, onRestart, goToPrevious }: { data
         
         {data.destinations.length > 0 ? (
           <>
+            {/* Photo / ink stamp toggle */}
+            {!isStatic && !illustrated && (
+              <div className="flex gap-1 bg-[#233038] rounded-full p-1 mb-6">
+                {(['photo', 'stamp'] as const).map(variant => (
+                  <button
+                    key={variant}
+                    onClick={() => setStampVariant(variant)}
+                    className={`px-4 py-1.5 rounded-full text-sm font-medium transition-colors ${
+                      stampVariant === variant ? 'bg-[#FF5B04] text-white' : 'text-[#D3DBDD]'
+                    }`}
+                  >
+                    {variant === 'photo' ? 'Photos' : 'Stamps'}
+                  </button>
+                ))}
+              </div>
+            )}
+
             {/* Stamps grid - masonry cascade with stamp thud effect */}
             <motion.div 
               className="grid grid-cols-2 gap-4 mb-8"
@@ -1580,7 +2580,7 @@ function StampCollectionSlide({ data, onShare, onRestart, goToPrevious }: { data
                   transition={{ delay: 0.3 + i * 0.1 }}
                   whileHover={{ scale: 1.05, rotate: 2 }}
                 >
-                  <StampCard destination={dest} />
+                  <StampCard destination={dest} variant={stampVariant} />
                 </motion.div>
               ))}
             </motion.div>
@@ -1593,7 +2593,7 @@ function StampCollectionSlide({ data, onShare, onRestart, goToPrevious }: { data
               transition={{ delay: 0.5 + data.destinations.length * 0.1 }}
             >
               <p className="text-[#FDF6E3] text-xl flex items-center justify-center gap-2">
-                What a year, @{data.profile.username}! 
+                What a year, {formatHandle(data.profile)}! 
                 <motion.img 
                   src="/images/party-popper.webp" 
                   alt="Party" 
@@ -1660,56 +2660,78 @@ function StampCollectionSlide({ data, onShare, onRestart, goToPrevious }: { data
       <div className="fixed bottom-0 left-0 right-0 h-56 bg-gradient-to-t from-[#0B0101] via-[#0B0101]/95 to-transparent pointer-events-none z-40" />
       
       {/* FOOTER BUTTONS - z-50 (highest, always on top) */}
-      <motion.div 
-        className="fixed bottom-0 left-0 right-0 p-6 z-50"
-        initial={{ y: 100 }}
-        animate={{ y: 0 }}
-        transition={{ delay: 0.8, type: "spring" }}
-      >
-        <div className="flex items-center justify-center gap-4">
-          <motion.div
-            className="flex-1"
-            initial={{ opacity: 0, y: 20 }}
-            animate={{ opacity: 1, y: 0 }}
-            transition={{ delay: 1, duration: 0.4, ease: "easeOut" }}
-          >
-            <Button 
-              onClick={onRestart}
-              className="w-full h-14 bg-[#FF5B04] hover:bg-[#E64F00] rounded-xl font-bold text-lg text-white transition-colors"
+      {!isStatic && (
+        <motion.div 
+          className="fixed bottom-0 left-0 right-0 p-6 z-50"
+          initial={{ y: 100 }}
+          animate={{ y: 0 }}
+          transition={{ delay: 0.8, type: "spring" }}
+        >
+          <div className="flex items-center justify-center gap-4">
+            <motion.div
+              className="flex-1"
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 1, duration: 0.4, ease: "easeOut" }}
             >
-              Create Another
-            </Button>
-          </motion.div>
-          
-          <motion.button
-            onClick={async () => {
-              const shareData = {
-                title: 'Stamped Recap',
-                text: 'Create your 2025 travel recap with Stamped Recap!',
-                url: window.location.origin
-              };
-              
-              try {
-                if (navigator.share) {
-                  await navigator.share(shareData);
-                } else {
-                  await navigator.clipboard.writeText(window.location.origin);
-                  alert('Link copied to clipboard!');
+              {onRestart ? (
+                <Button 
+                  onClick={onRestart}
+                  className="w-full h-14 bg-[#FF5B04] hover:bg-[#E64F00] rounded-xl font-bold text-lg text-white transition-colors"
+                >
+                  Create Another
+                </Button>
+              ) : (
+                <Button 
+                  asChild
+                  className="w-full h-14 bg-[#FF5B04] hover:bg-[#E64F00] rounded-xl font-bold text-lg text-white transition-colors"
+                >
+                  <a href="/">Make Your Own</a>
+                </Button>
+              )}
+            </motion.div>
+            
+            <motion.button
+              onClick={onPublish ?? (async () => {
+                const shareData = {
+                  title: 'Stamped Recap',
+                  text: `Create your ${data.year} travel recap with Stamped Recap!`,
+                  url: window.location.origin
+                };
+                
+                try {
+                  if (navigator.share) {
+                    await navigator.share(shareData);
+                  } else {
+                    await navigator.clipboard.writeText(window.location.origin);
+                    alert('Link copied to clipboard!');
+                  }
+                } catch (err) {
+                  console.error('Share failed:', err);
                 }
-              } catch (err) {
-                console.error('Share failed:', err);
-              }
-            }}
-            className="w-16 h-14 bg-[#233038] hover:bg-[#2C3E47] border-2 border-[#D3DBDD] rounded-xl flex items-center justify-center transition-colors"
-            title="Share Stamped Recap"
-            initial={{ opacity: 0, y: 20 }}
-            animate={{ opacity: 1, y: 0 }}
-            transition={{ delay: 1.1, duration: 0.4, ease: "easeOut" }}
-          >
-            <Share2 className="w-6 h-6 text-[#D3DBDD]" />
-          </motion.button>
-        </div>
-      </motion.div>
+              })}
+              className="w-16 h-14 bg-[#233038] hover:bg-[#2C3E47] border-2 border-[#D3DBDD] rounded-xl flex items-center justify-center transition-colors"
+              title={onPublish ? "Share a link to your recap" : "Share Stamped Recap"}
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 1.1, duration: 0.4, ease: "easeOut" }}
+            >
+              <Share2 className="w-6 h-6 text-[#D3DBDD]" />
+            </motion.button>
+
+            <motion.button
+              onClick={onExportPassport}
+              className="w-16 h-14 bg-[#233038] hover:bg-[#2C3E47] border-2 border-[#D3DBDD] rounded-xl flex items-center justify-center transition-colors"
+              title="Print your passport"
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 1.2, duration: 0.4, ease: "easeOut" }}
+            >
+              <BookOpen className="w-6 h-6 text-[#D3DBDD]" />
+            </motion.button>
+          </div>
+        </motion.div>
+      )}
     </div>
   );
 }
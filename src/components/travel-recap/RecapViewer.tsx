@@ -0,0 +1,91 @@
+import { useEffect, useState } from "react";
+import { useLocation, useParams } from "react-router-dom";
+import { motion } from "framer-motion";
+import { Loader2, MapPin } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { TravelRecapData } from "./types";
+import RecapStory from "./RecapStory";
+import { loadPublishedRecap } from "@/lib/recap-storage";
+import { decodeRecapLink } from "@/lib/recap-link";
+import { RecapStats } from "@/lib/recap-stats";
+
+interface RecapViewerProps {
+  // "published": fetched by the :recapId route param; "link": decoded from the URL fragment
+  source: 'published' | 'link';
+}
+
+type ViewerState =
+  | { status: 'loading' }
+  | { status: 'ready'; data: TravelRecapData; stats?: RecapStats }
+  | { status: 'missing' }
+  | { status: 'error' };
+
+// Plays someone's recap for anyone with the link, read-only
+export default function RecapViewer({ source }: RecapViewerProps) {
+  const { recapId } = useParams<{ recapId: string }>();
+  const { hash } = useLocation();
+  const [state, setState] = useState<ViewerState>({ status: 'loading' });
+
+  useEffect(() => {
+    if (source === 'link') {
+      const decoded = decodeRecapLink(hash.slice(1));
+      setState(decoded ? { status: 'ready', ...decoded } : { status: 'missing' });
+      return;
+    }
+
+    if (!recapId) return;
+    let cancelled = false;
+    setState({ status: 'loading' });
+    loadPublishedRecap(recapId)
+      .then(data => {
+        if (!cancelled) setState(data ? { status: 'ready', data } : { status: 'missing' });
+      })
+      .catch(err => {
+        console.error('Failed to load recap:', err);
+        if (!cancelled) setState({ status: 'error' });
+      });
+    return () => { cancelled = true; };
+  }, [source, recapId, hash]);
+
+  if (state.status === 'ready') {
+    return (
+      <div className="min-h-screen bg-[#0B0101] text-[#FDF6E3]">
+        <RecapStory data={state.data} stats={state.stats} illustrated={source === 'link'} readOnly />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-[#0B0101] flex flex-col items-center justify-center p-6 text-center">
+      {state.status === 'loading' ? (
+        <>
+          <Loader2 className="w-10 h-10 text-[#FF5B04] animate-spin mb-4" />
+          <p className="text-[#D3DBDD]">Unpacking this recap...</p>
+        </>
+      ) : (
+        <motion.div
+          className="max-w-sm"
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+        >
+          <div className="w-20 h-20 bg-[#233038] rounded-full flex items-center justify-center mx-auto mb-6">
+            <MapPin className="w-10 h-10 text-[#D3DBDD]" />
+          </div>
+          <h2 className="text-2xl font-bold text-[#FDF6E3] mb-2">
+            {state.status === 'missing' ? "This recap doesn't exist" : 'Something went wrong'}
+          </h2>
+          <p className="text-[#D3DBDD] mb-8">
+            {state.status === 'missing'
+              ? source === 'link'
+                ? 'The link looks incomplete. Ask for it again, making sure it was copied in full.'
+                : 'The link may be mistyped, or the recap was published on another device.'
+              : "We couldn't load this recap. Please try again in a moment."}
+          </p>
+          <Button asChild className="h-12 px-8 rounded-full bg-[#FF5B04] hover:bg-[#E54F03] text-white font-medium">
+            <a href="/">Make your own</a>
+          </Button>
+        </motion.div>
+      )}
+    </div>
+  );
+}
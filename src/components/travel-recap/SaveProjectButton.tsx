@@ -0,0 +1,41 @@
+import { useState } from "react";
+import { Save } from "lucide-react";
+import { ProjectExportOptions } from "@/lib/project-file";
+import { downloadBlob } from "@/lib/story-export";
+
+interface SaveProjectButtonProps {
+  onSave: (options: ProjectExportOptions) => Promise<Blob>;
+  filename: string;
+}
+
+// Small "save for later" link for the steps before the story, which has its own
+export default function SaveProjectButton({ onSave, filename }: SaveProjectButtonProps) {
+  const [progress, setProgress] = useState<number | null>(null);
+
+  const handleSave = async () => {
+    setProgress(0);
+    try {
+      const file = await onSave({
+        onProgress: (current, total) => setProgress(Math.round((current / total) * 100))
+      });
+      downloadBlob(file, filename);
+    } catch (err) {
+      console.error('Failed to save recap:', err);
+      alert('Sorry, your recap could not be saved. Please try again.');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <button
+      onClick={handleSave}
+      disabled={progress !== null}
+      className="text-xs text-[#D3DBDD] hover:text-[#FF5B04] inline-flex items-center gap-1 transition-colors disabled:opacity-50 disabled:hover:text-[#D3DBDD]"
+      title="Save recap to open later"
+    >
+      <Save className="w-3 h-3" />
+      {progress === null ? 'Save for later' : `Saving... ${progress}%`}
+    </button>
+  );
+}
@@ -1,12 +1,17 @@
 import { TravelDestination, getDestinationDisplayName } from "./types";
+import { getTotalDays } from "@/lib/trips";
+import PassportStamp from "./PassportStamp";
+import { mediaCache } from "@/lib/media-cache";
 
 interface StampCardProps {
   destination: TravelDestination;
   isActive?: boolean;
   size?: 'sm' | 'md' | 'lg';
+  // 'photo' shows the first photo; 'stamp' shows a generated ink stamp
+  variant?: 'photo' | 'stamp';
 }
 
-export default function StampCard({ destination, isActive = false, size = 'md' }: StampCardProps) {
+export default function StampCard({ destination, isActive = false, size = 'md', variant = 'photo' }: StampCardProps) {
   const sizeClasses = {
     sm: 'w-24 h-28',
     md: 'w-36 h-44',
@@ -25,6 +30,20 @@ export default function StampCard({ destination, isActive = false, size = 'md' }
   // Get first image from images array
   const firstImage = destination.images?.[0] || null;
   const imageCount = destination.images?.length || 0;
+  const visitCount = destination.visits?.length || 0;
+  const totalDays = getTotalDays(destination);
+
+  if (variant === 'stamp') {
+    return (
+      <div 
+        className={`relative ${sizeClasses[size]} ${isActive ? 'scale-105' : ''} transition-transform duration-300`}
+      >
+        <div className="absolute inset-0 bg-[#233038] rounded-xl border border-[#075056] flex items-center justify-center p-2">
+          <PassportStamp destination={destination} className="w-full h-full" />
+        </div>
+      </div>
+    );
+  }
 
   return (
     <div 
@@ -39,7 +58,7 @@ export default function StampCard({ destination, isActive = false, size = 'md' }
             {firstImage ? (
               <>
                 <img
-                  src={firstImage}
+                  src={mediaCache.url(firstImage, 'thumb')}
                   alt={getDestinationDisplayName(destination)}
                   className="w-full h-full object-cover"
                 />
@@ -64,6 +83,15 @@ export default function StampCard({ destination, isActive = false, size = 'md' }
             <div className="absolute bottom-1 left-1 bg-[#FF5B04] px-2 py-0.5 rounded-full">
               <span className="text-[8px] font-bold text-white">#{destination.visitOrder}</span>
             </div>
+
+            {/* Repeat visits and total days */}
+            {totalDays > 0 && (
+              <div className="absolute bottom-1 right-1 bg-[#0B0101]/80 px-2 py-0.5 rounded-full">
+                <span className="text-[8px] font-bold text-[#F4D47C]">
+                  {visitCount > 1 && `${visitCount}× • `}{totalDays}d
+                </span>
+              </div>
+            )}
           </div>
 
           {/* Footer */}
@@ -6,6 +6,7 @@ import { bounceDown, fadeInUp } from "@/utils/animations";
 interface TaggingIntroProps {
   imageCount: number;
   geoTaggedCount: number;
+  clusterCount?: number;
   onContinue: () => void;
   onBack: () => void;
 }
@@ -26,7 +27,7 @@ const AnimatedWord = ({ word, index }: { word: string; index: number }) => (
   </motion.span>
 );
 
-export default function TaggingIntro({ imageCount, geoTaggedCount, onContinue, onBack }: TaggingIntroProps) {
+export default function TaggingIntro({ imageCount, geoTaggedCount, clusterCount, onContinue, onBack }: TaggingIntroProps) {
   const [progressWidth, setProgressWidth] = useState(50);
 
   // Memoize onContinue to avoid issues with useEffect dependency
@@ -128,6 +129,9 @@ export default function TaggingIntro({ imageCount, geoTaggedCount, onContinue, o
             ) : (
               <>You uploaded <span className="text-[#FDF6E3] font-semibold">{imageCount}</span> photos. Let's tag where each one was taken!</>
             )}
+            {clusterCount !== undefined && clusterCount > 0 && clusterCount < imageCount && (
+              <> We grouped them into <span className="text-[#F4D47C] font-semibold">{clusterCount}</span> {clusterCount === 1 ? 'visit' : 'visits'}, so you only tag each one once.</>
+            )}
           </motion.p>
           
 
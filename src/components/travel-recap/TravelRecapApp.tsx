@@ -1,14 +1,23 @@
-import { useState } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { TravelRecapData, TravelDestination, TravelImage, UserProfile } from "./types";
+import { TravelRecapData, TravelDestination, TravelImage, ImageCluster, UserProfile, RecapStep, RecapPeriod, HomeBase, VideoClip } from "./types";
 import WelcomeScreen from "./WelcomeScreen";
 import ProfileSetup from "./ProfileSetup";
 import ImageUploader from "./ImageUploader";
 import TaggingIntro from "./TaggingIntro";
 import LocationTagger from "./LocationTagger";
+import PhotoCuration from "./PhotoCuration";
 import RecapStory from "./RecapStory";
+import { saveDraft, loadDraft, clearDraft, RecapDraft } from "@/lib/draft-store";
+import { clusterImages } from "@/lib/clustering";
+import { getDefaultRecapYear, getPeriodText, getPeriodYear, getYearPeriod, isInPeriod } from "@/lib/recap-period";
+import { inferHomeBase, isAtHome } from "@/lib/home-base";
+import { exportProject, importProject, PROJECT_FILE_EXTENSION, ProjectExportOptions, ProjectFileError, ProjectStep } from "@/lib/project-file";
+import { mediaCache } from "@/lib/media-cache";
+import { carryOverCuration } from "@/lib/trips";
 
-type Step = 'welcome' | 'profile' | 'upload' | 'tagging-intro' | 'tag' | 'story';
+// Debounce draft writes so rapid tagging doesn't hammer IndexedDB
+const DRAFT_SAVE_DELAY = 500;
 
 // Page transition variants
 const pageVariants = {
@@ -23,81 +32,225 @@ const pageTransition = {
   duration: 0.3
 };
 
+const createRecapData = (period: RecapPeriod = getYearPeriod(getDefaultRecapYear())): TravelRecapData => ({
+  profile: { username: '', platform: 'none' },
+  destinations: [],
+  year: getPeriodYear(period),
+  period
+});
+
+// Only photos taken away from home within the recap period are clustered and
+// tagged; copies set aside as duplicates never need a tag
+const filterToTrips = (images: TravelImage[], period: RecapPeriod, home?: HomeBase) =>
+  images.filter(img => isInPeriod(img.timestamp, period) && !isAtHome(img, home) && !img.duplicateOf);
+
+// Fills in a home base the user asked us to detect, once there are photos to go on
+const withDetectedHome = (profile: UserProfile, images: TravelImage[]): UserProfile => {
+  if (profile.home || !profile.detectHome) return profile;
+  const home = inferHomeBase(images);
+  return home ? { ...profile, home, detectHome: false } : profile;
+};
+
 export default function TravelRecapApp() {
-  const [step, setStep] = useState<Step>('welcome');
+  const [step, setStep] = useState<RecapStep>('welcome');
   const [images, setImages] = useState<TravelImage[]>([]);
-  const [recapData, setRecapData] = useState<TravelRecapData>({
-    profile: { username: '', platform: 'none' },
-    destinations: [],
-    year: 2025
-  });
+  const [clusters, setClusters] = useState<ImageCluster[]>([]);
+  const [recapData, setRecapData] = useState<TravelRecapData>(() => createRecapData());
+  const [draft, setDraft] = useState<RecapDraft | null>(null);
 
-  const handleProfileComplete = (profile: UserProfile) => {
-    setRecapData(prev => ({ ...prev, profile }));
+  // Look for an unfinished recap from a previous session
+  useEffect(() => {
+    loadDraft()
+      .then(setDraft)
+      .catch(err => console.error('Failed to load draft:', err));
+  }, []);
+
+  // Persist progress whenever we're past the welcome screen
+  useEffect(() => {
+    if (step === 'welcome') return;
+
+    const timer = setTimeout(() => {
+      saveDraft(step, images, recapData).catch(err => console.error('Failed to save draft:', err));
+    }, DRAFT_SAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [step, images, recapData]);
+
+  // Lets slides and exports find each photo's other sizes
+  useEffect(() => {
+    images.forEach(img => mediaCache.register(img));
+  }, [images]);
+
+  const handleStart = () => {
+    // Starting over replaces any saved draft
+    if (draft) {
+      draft.images.forEach(img => mediaCache.release(img));
+      clearDraft().catch(err => console.error('Failed to clear draft:', err));
+      setDraft(null);
+    }
+    setStep('profile');
+  };
+
+  const handleResume = () => {
+    if (!draft) return;
+    setImages(draft.images);
+    setClusters(clusterImages(filterToTrips(draft.images, draft.recapData.period, draft.recapData.profile.home)));
+    setRecapData(draft.recapData);
+    // The tagging intro auto-advances, so land back on the tagger directly
+    setStep(draft.step === 'tagging-intro' ? 'tag' : draft.step);
+    setDraft(null);
+  };
+
+  // Opening a saved .stampedrecap skips straight to where it was saved
+  const handleImportProject = async (file: File) => {
+    try {
+      const project = await importProject(file);
+      draft?.images.forEach(img => mediaCache.release(img));
+      setImages(project.images);
+      setClusters(clusterImages(filterToTrips(project.images, project.recapData.period, project.recapData.profile.home)));
+      setRecapData(project.recapData);
+      setStep(project.step);
+      setDraft(null);
+    } catch (err) {
+      console.error('Failed to open recap file:', err);
+      alert(err instanceof ProjectFileError ? err.message : 'Sorry, this recap could not be opened. Please try again.');
+    }
+  };
+
+  // Saved with the step it was saved from, so opening the file resumes there.
+  // Curation passes its unsaved picks in as `destinations`.
+  const handleSaveProject = (step: ProjectStep, options: ProjectExportOptions, destinations = recapData.destinations) =>
+    exportProject(step, images, { ...recapData, destinations }, options);
+  const projectFilename = `stamped-recap-${getPeriodText(recapData.period).fileSlug}-${recapData.profile.username}${PROJECT_FILE_EXTENSION}`;
+
+  const handleProfileComplete = (newProfile: UserProfile, period: RecapPeriod) => {
+    const profile = withDetectedHome(newProfile, images);
+    setRecapData(prev => ({ ...prev, profile, period, year: getPeriodYear(period) }));
+    // Coming back to change the period or home re-groups photos that were already uploaded
+    if (images.length > 0) {
+      setClusters(clusterImages(filterToTrips(images, period, profile.home)));
+    }
     setStep('upload');
   };
 
   const handleImagesUploaded = (uploadedImages: TravelImage[]) => {
+    const profile = withDetectedHome(recapData.profile, uploadedImages);
     setImages(uploadedImages);
+    setRecapData(prev => ({ ...prev, profile }));
+    // Group photos into candidate visits so each is tagged once
+    setClusters(clusterImages(filterToTrips(uploadedImages, recapData.period, profile.home)));
     setStep('tagging-intro');
   };
 
+  // The tagger only sees trip photos; merge its updates back into the full set
+  const handlePeriodImagesChange = (updated: TravelImage[]) => {
+    const byId = new Map(updated.map(img => [img.id, img]));
+    setImages(prev => prev.map(img => byId.get(img.id) ?? img));
+  };
+
   const handleTaggingComplete = (destinations: TravelDestination[]) => {
+    setRecapData(prev => ({ ...prev, destinations: carryOverCuration(destinations, prev.destinations) }));
+    // Nothing to curate without destinations
+    setStep(destinations.length > 0 ? 'curate' : 'story');
+  };
+
+  const handleCurationComplete = (destinations: TravelDestination[]) => {
     setRecapData(prev => ({ ...prev, destinations }));
     setStep('story');
   };
 
   const handleRestart = () => {
-    setRecapData({
-      profile: { username: '', platform: 'none' },
-      destinations: [],
-      year: 2025
-    });
+    images.forEach(img => mediaCache.release(img));
+    setRecapData(createRecapData());
     setImages([]);
+    setClusters([]);
     setStep('welcome');
+    clearDraft().catch(err => console.error('Failed to clear draft:', err));
   };
 
-  const geoTaggedCount = images.filter(img => img.geoTag).length;
+  const periodImages = filterToTrips(images, recapData.period, recapData.profile.home);
+  const geoTaggedCount = periodImages.filter(img => img.geoTag).length;
+  // Destinations list previews, which for videos are poster frames
+  const clips = useMemo(
+    () => new Map<string, VideoClip>(images.filter(img => img.video).map(img => [img.preview, img.video!])),
+    [images]
+  );
 
   return (
     <div className="min-h-screen bg-[#0B0101] text-[#FDF6E3]">
       {step === 'welcome' && (
-        <WelcomeScreen onStart={() => setStep('profile')} />
+        <WelcomeScreen
+          year={recapData.year}
+          onStart={handleStart}
+          onResume={draft ? handleResume : undefined}
+          onImport={handleImportProject}
+          draftImageCount={draft?.images.length}
+        />
       )}
       {step === 'profile' && (
         <ProfileSetup 
           onNext={handleProfileComplete}
           onBack={() => setStep('welcome')}
           initialProfile={recapData.profile}
+          initialPeriod={recapData.period}
+          images={images}
         />
       )}
       {step === 'upload' && (
         <ImageUploader
           onNext={handleImagesUploaded}
-          onBack={() => setStep('profile')}
+          onBack={(current) => {
+            setImages(current);
+            setStep('profile');
+          }}
           initialImages={images}
+          period={recapData.period}
+          home={recapData.profile.home}
+          detectHome={recapData.profile.detectHome}
         />
       )}
       {step === 'tagging-intro' && (
         <TaggingIntro
-          imageCount={images.length}
+          imageCount={periodImages.length}
           geoTaggedCount={geoTaggedCount}
+          clusterCount={clusters.length}
           onContinue={() => setStep('tag')}
           onBack={() => setStep('upload')}
         />
       )}
       {step === 'tag' && (
         <LocationTagger
-          images={images}
+          images={periodImages}
+          clusters={clusters}
+          onImagesChange={handlePeriodImagesChange}
           onComplete={handleTaggingComplete}
+          home={recapData.profile.home}
+          visitGapDays={recapData.profile.visitGapDays}
           onBack={() => setStep('tagging-intro')}
+          onSaveProject={options => handleSaveProject('tag', options)}
+          projectFilename={projectFilename}
+        />
+      )}
+      {step === 'curate' && (
+        <PhotoCuration
+          destinations={recapData.destinations}
+          images={images}
+          onComplete={handleCurationComplete}
+          onSaveProject={(destinations, options) => handleSaveProject('curate', options, destinations)}
+          projectFilename={projectFilename}
+          onBack={destinations => {
+            // Keep the picks so far; they're carried over if tags change
+            setRecapData(prev => ({ ...prev, destinations }));
+            setStep('tag');
+          }}
         />
       )}
       {step === 'story' && (
         <RecapStory
           data={recapData}
-          onBack={() => setStep('tag')}
+          onBack={() => setStep(recapData.destinations.length > 0 ? 'curate' : 'tag')}
           onRestart={handleRestart}
+          onSaveProject={options => handleSaveProject('story', options)}
+          clips={clips}
         />
       )}
     </div>
@@ -1,8 +1,14 @@
+import { useRef } from "react";
 import { motion } from "framer-motion";
 import { scaleInBounce, fadeInUp, staggerContainer } from "@/utils/animations";
+import { PROJECT_FILE_EXTENSION } from "@/lib/project-file";
 
 interface WelcomeScreenProps {
+  year: number;
   onStart: () => void;
+  onResume?: () => void;
+  onImport: (file: File) => void;
+  draftImageCount?: number;
 }
 
 // Word animation component for staggered text reveal
@@ -21,8 +27,16 @@ const AnimatedWord = ({ word, index }: { word: string; index: number }) => (
   </motion.span>
 );
 
-export default function WelcomeScreen({ onStart }: WelcomeScreenProps) {
-  const headingWords = "Create your 2025 travel wrapped".split(" ");
+export default function WelcomeScreen({ year, onStart, onResume, onImport, draftImageCount }: WelcomeScreenProps) {
+  const headingWords = `Create your ${year} travel wrapped`.split(" ");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so picking the same file again still fires a change
+    e.target.value = '';
+    if (file) onImport(file);
+  };
 
   return (
     <div className="min-h-screen bg-[#0B0101] relative overflow-hidden flex items-center justify-center p-8">
@@ -91,8 +105,42 @@ export default function WelcomeScreen({ onStart }: WelcomeScreenProps) {
           whileHover={{ scale: 1.05, boxShadow: "0 0 30px rgba(255, 91, 4, 0.5)" }}
           whileTap={{ scale: 0.95 }}
         >
-          Create My Stamped Recap
+          {onResume ? 'Start a New Recap' : 'Create My Stamped Recap'}
+        </motion.button>
+
+        {/* Resume saved draft */}
+        {onResume && (
+          <motion.button
+            onClick={onResume}
+            className="block mx-auto mt-4 bg-transparent border-2 border-[#D3DBDD] text-[#D3DBDD] hover:border-[#FF5B04] hover:text-[#FF5B04] font-semibold px-10 py-4 rounded-full transition-colors"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 1.8, duration: 0.4 }}
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+          >
+            Resume your draft
+            {draftImageCount ? ` (${draftImageCount} ${draftImageCount === 1 ? 'photo' : 'photos'})` : ''}
+          </motion.button>
+        )}
+        
+        {/* Open a recap saved as a .stampedrecap file */}
+        <motion.button
+          onClick={() => fileInputRef.current?.click()}
+          className="block mx-auto mt-4 text-[#D3DBDD] hover:text-[#FF5B04] text-sm font-semibold underline underline-offset-4 transition-colors"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ delay: 1.9, duration: 0.4 }}
+        >
+          Open a saved recap
         </motion.button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={`${PROJECT_FILE_EXTENSION},application/zip`}
+          onChange={handleFileChange}
+          className="hidden"
+        />
         
         {/* Footer text */}
         <motion.p 
@@ -1,17 +1,54 @@
+// One continuous stay at a destination. Photos further apart than the visit gap
+// (see lib/trips) start a new visit, so Paris in March and November are separate.
+export interface Visit {
+  id: string;
+  visitNumber: number; // 1-based, per destination
+  startTimestamp: number;
+  endTimestamp: number;
+  days: number; // Calendar days spanned, at least 1
+  images: string[];
+}
+
 export interface TravelDestination {
   id: string;
   type: 'country' | 'city';
   name: string;
   country: string;
-  images: string[]; // Array of all images for this destination
+  images: string[]; // Shown photos in display order; the first is the cover
+  hiddenImages?: string[]; // Photos left out while curating, kept so they can be restored
   visitOrder: number;
   earliestTimestamp?: number; // For chronological ordering
+  visits?: Visit[]; // Chronological; absent for destinations created without photos
+  coordinates?: { lat: number; lng: number }; // Mean position of the geotagged photos
+}
+
+// Playback details for a video clip
+export interface VideoClip {
+  src: string; // Object URL of the clip itself
+  durationMs: number;
+}
+
+export interface TravelVideo extends VideoClip {
+  poster: Blob; // JPEG frame shown wherever a still is needed, e.g. while tagging
+}
+
+// Downscaled JPEGs made at upload (see lib/media-cache)
+export interface ImageRenditions {
+  slide: Blob;
+  thumb: Blob;
+  width: number; // Of the original
+  height: number;
 }
 
+// A photo or a video clip. Videos use their poster frame as `preview`, so
+// everything that shows stills works the same for both.
 export interface TravelImage {
   id: string;
   file: File;
-  preview: string;
+  preview: string; // Object URL of the slide rendition, or the original when there is none
+  thumbnail?: string; // Object URL of the thumb rendition for grids; use preview when absent
+  renditions?: ImageRenditions; // Kept so drafts reload without re-decoding originals
+  video?: TravelVideo; // Absent for photos
   location?: {
     type: 'country' | 'city';
     name: string;
@@ -25,19 +62,55 @@ export interface TravelImage {
   };
   timestamp?: number; // Unix timestamp in milliseconds from EXIF or file lastModified
   order: number;
+  hash?: string; // Perceptual hash (dHash) for spotting duplicates, see lib/duplicates
+  duplicateOf?: string; // Id of the copy kept instead; left out of destinations
+  keepDuplicates?: boolean; // Chose "keep all" for this photo's duplicate group
+  quality?: number; // Best-shot score from 0 to 1, see lib/photo-quality; absent for clips
+}
+
+// Photos grouped by time and place into a candidate "visit" for tagging
+export interface ImageCluster {
+  id: string;
+  imageIds: string[];
+  startTimestamp?: number;
+  endTimestamp?: number;
+  center?: { lat: number; lng: number };
+  suggestedCity?: string;
+  suggestedCountry?: string;
+}
+
+// Where the user lives; photos taken here aren't counted as travel
+export interface HomeBase {
+  city: string;
+  country: string;
+  coordinates: { lat: number; lng: number };
+  source: 'search' | 'photos';
 }
 
 export interface UserProfile {
   username: string;
   platform: 'instagram' | 'twitter' | 'none';
+  home?: HomeBase;
+  detectHome?: boolean; // Infer home from the uploaded photos once they're in
+  visitGapDays?: number; // Days apart that make photos of one place separate visits
+}
+
+// The stretch of time a recap covers, as inclusive millisecond bounds
+export interface RecapPeriod {
+  kind: 'year' | 'last-12-months' | 'custom';
+  start: number;
+  end: number;
 }
 
 export interface TravelRecapData {
   profile: UserProfile;
   destinations: TravelDestination[];
-  year: number;
+  year: number; // Calendar year, or the year the period ends in
+  period: RecapPeriod;
 }
 
+export type RecapStep = 'welcome' | 'profile' | 'upload' | 'tagging-intro' | 'tag' | 'curate' | 'story';
+
 // Helper function to get display name for a destination
 export function getDestinationDisplayName(destination: TravelDestination): string {
   if (destination.type === 'city') {
@@ -54,14 +127,15 @@ export const COUNTRIES = [
   "Bolivia", "Bosnia and Herzegovina", "Botswana", "Brazil", "Brunei", "Bulgaria",
   "Burkina Faso", "Burundi", "Cambodia", "Cameroon", "Canada", "Cape Verde",
   "Central African Republic", "Chad", "Chile", "China", "Colombia", "Comoros",
-  "Congo", "Costa Rica", "Croatia", "Cuba", "Cyprus", "Czech Republic", "Denmark",
-  "Djibouti", "Dominica", "Dominican Republic", "Ecuador", "Egypt", "El Salvador",
+  "Congo", "Costa Rica", "Croatia", "Cuba", "Cyprus", "Czech Republic",
+  "Democratic Republic of the Congo", "Denmark", "Djibouti", "Dominica",
+  "Dominican Republic", "Ecuador", "Egypt", "El Salvador",
   "Equatorial Guinea", "Eritrea", "Estonia", "Eswatini", "Ethiopia", "Fiji",
   "Finland", "France", "Gabon", "Gambia", "Georgia", "Germany", "Ghana", "Greece",
   "Grenada", "Guatemala", "Guinea", "Guinea-Bissau", "Guyana", "Haiti", "Honduras",
   "Hungary", "Iceland", "India", "Indonesia", "Iran", "Iraq", "Ireland", "Israel",
-  "Italy", "Jamaica", "Japan", "Jordan", "Kazakhstan", "Kenya", "Kiribati",
-  "North Korea", "South Korea", "Kuwait", "Kyrgyzstan", "Laos", "Latvia", "Lebanon",
+  "Italy", "Ivory Coast", "Jamaica", "Japan", "Jordan", "Kazakhstan", "Kenya", "Kiribati",
+  "North Korea", "South Korea", "Kosovo", "Kuwait", "Kyrgyzstan", "Laos", "Latvia", "Lebanon",
   "Lesotho", "Liberia", "Libya", "Liechtenstein", "Lithuania", "Luxembourg",
   "Madagascar", "Malawi", "Malaysia", "Maldives", "Mali", "Malta", "Marshall Islands",
   "Mauritania", "Mauritius", "Mexico", "Micronesia", "Moldova", "Monaco", "Mongolia",
@@ -77,5 +151,5 @@ export const COUNTRIES = [
   "Timor-Leste", "Togo", "Tonga", "Trinidad and Tobago", "Tunisia", "Turkey",
   "Turkmenistan", "Tuvalu", "Uganda", "Ukraine", "United Arab Emirates", "United Kingdom",
   "United States", "Uruguay", "Uzbekistan", "Vanuatu", "Vatican City", "Venezuela",
-  "Vietnam", "Yemen", "Zambia", "Zimbabwe"
+  "Vietnam", "Western Sahara", "Yemen", "Zambia", "Zimbabwe"
 ];
@@ -14,13 +14,24 @@ import {
   PopoverTrigger,
 } from "@/components/ui/popover";
 
+interface DatePickerWithRangeProps extends React.HTMLAttributes<HTMLDivElement> {
+  date?: DateRange;
+  onDateChange?: (date: DateRange | undefined) => void;
+  disabled?: (day: Date) => boolean;
+}
+
 export default function DatePickerWithRange({
   className,
-}: React.HTMLAttributes<HTMLDivElement>) {
-  const [date, setDate] = React.useState<DateRange | undefined>({
+  date: controlledDate,
+  onDateChange,
+  disabled,
+}: DatePickerWithRangeProps) {
+  const [uncontrolledDate, setUncontrolledDate] = React.useState<DateRange | undefined>({
     from: new Date(2022, 0, 20),
     to: addDays(new Date(2022, 0, 20), 20),
   });
+  const date = onDateChange ? controlledDate : uncontrolledDate;
+  const setDate = onDateChange ?? setUncontrolledDate;
 
   return (
     <div className={cn("grid gap-2", className)}>
@@ -56,6 +67,7 @@ export default function DatePickerWithRange({
             defaultMonth={date?.from}
             selected={date}
             onSelect={setDate}
+            disabled={disabled}
             numberOfMonths={2}
           />
         </PopoverContent>
@@ -0,0 +1,110 @@
+import { ImageCluster, TravelImage } from "@/components/travel-recap/types";
+import { haversineKm } from "@/lib/geo/distance";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface ClusterOptions {
+  // Start a new cluster when consecutive photos are further apart in time
+  maxGapMs?: number;
+  // Stricter gap used when neither photo has GPS to back up the grouping
+  maxGapWithoutGpsMs?: number;
+  // Start a new cluster when a photo is this far from the cluster's centre
+  maxDistanceKm?: number;
+}
+
+interface ClusterBuilder {
+  images: TravelImage[];
+  latSum: number;
+  lngSum: number;
+  gpsCount: number;
+}
+
+const centerOf = (b: ClusterBuilder) =>
+  b.gpsCount > 0 ? { lat: b.latSum / b.gpsCount, lng: b.lngSum / b.gpsCount } : undefined;
+
+// Most common suggestion across the cluster's geotagged photos
+function majoritySuggestion(images: TravelImage[]) {
+  const counts = new Map<string, { city?: string; country?: string; count: number }>();
+  images.forEach(img => {
+    if (!img.geoTag?.suggestedCountry) return;
+    const key = `${img.geoTag.suggestedCity ?? ''}|${img.geoTag.suggestedCountry}`;
+    const entry = counts.get(key) ?? { city: img.geoTag.suggestedCity, country: img.geoTag.suggestedCountry, count: 0 };
+    entry.count++;
+    counts.set(key, entry);
+  });
+  let best: { city?: string; country?: string; count: number } | null = null;
+  for (const entry of counts.values()) {
+    if (!best || entry.count > best.count) best = entry;
+  }
+  return best;
+}
+
+function toCluster(builder: ClusterBuilder): ImageCluster {
+  const timestamps = builder.images.map(img => img.timestamp).filter((t): t is number => !!t);
+  const suggestion = majoritySuggestion(builder.images);
+  return {
+    // Derived from the first photo so re-clustering the same upload is stable
+    id: `cluster-${builder.images[0].id}`,
+    imageIds: builder.images.map(img => img.id),
+    startTimestamp: timestamps.length ? Math.min(...timestamps) : undefined,
+    endTimestamp: timestamps.length ? Math.max(...timestamps) : undefined,
+    center: centerOf(builder),
+    suggestedCity: suggestion?.city,
+    suggestedCountry: suggestion?.country
+  };
+}
+
+// Groups photos into candidate visits: chronologically consecutive photos stay
+// together until there's a long pause or the GPS jumps away from the cluster.
+export function clusterImages(
+  images: TravelImage[],
+  { maxGapMs = 36 * HOUR_MS, maxGapWithoutGpsMs = 12 * HOUR_MS, maxDistanceKm = 30 }: ClusterOptions = {}
+): ImageCluster[] {
+  const sorted = [...images].sort((a, b) => (a.timestamp ?? 0) - (b.timestamp ?? 0));
+  const builders: ClusterBuilder[] = [];
+  let current: ClusterBuilder | null = null;
+  let previous: TravelImage | null = null;
+
+  for (const img of sorted) {
+    let startNew = !current;
+
+    if (current && previous) {
+      const gap = (img.timestamp ?? 0) - (previous.timestamp ?? 0);
+      const center = centerOf(current);
+      if (img.geoTag && center) {
+        const distance = haversineKm(center.lat, center.lng, img.geoTag.lat, img.geoTag.lng);
+        startNew = gap > maxGapMs || distance > maxDistanceKm;
+      } else {
+        startNew = gap > maxGapWithoutGpsMs;
+      }
+    }
+
+    if (startNew) {
+      current = { images: [], latSum: 0, lngSum: 0, gpsCount: 0 };
+      builders.push(current);
+    }
+    current!.images.push(img);
+    if (img.geoTag) {
+      current!.latSum += img.geoTag.lat;
+      current!.lngSum += img.geoTag.lng;
+      current!.gpsCount++;
+    }
+    previous = img;
+  }
+
+  return builders.map(toCluster);
+}
+
+// Breaks a cluster into one cluster per photo, for when the grouping is wrong
+export function splitCluster(cluster: ImageCluster, images: TravelImage[]): ImageCluster[] {
+  const byId = new Map(images.map(img => [img.id, img]));
+  return cluster.imageIds
+    .map(id => byId.get(id))
+    .filter((img): img is TravelImage => !!img)
+    .map(img => toCluster({
+      images: [img],
+      latSum: img.geoTag?.lat ?? 0,
+      lngSum: img.geoTag?.lng ?? 0,
+      gpsCount: img.geoTag ? 1 : 0
+    }));
+}
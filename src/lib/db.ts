@@ -0,0 +1,67 @@
+import { openDB, DBSchema, IDBPDatabase } from "idb";
+import type { DraftMeta, StoredDraftBlobs, StoredDraftImage } from "./draft-store";
+import type { GeocodeCacheEntry } from "./geocoding/cache";
+import type { StoredPublishedRecap } from "./recap-storage/local";
+
+const DB_NAME = "stamped-recap";
+const DB_VERSION = 4;
+
+export interface StampedRecapDB extends DBSchema {
+  // Single-row store holding the in-progress recap (key: "current")
+  "draft-meta": {
+    key: string;
+    value: DraftMeta;
+  };
+  // One row per uploaded image: tags and other small fields, rewritten as they change
+  "draft-images": {
+    key: string;
+    value: StoredDraftImage;
+  };
+  // The original file and renditions of each image, written once
+  "draft-blobs": {
+    key: string;
+    value: StoredDraftBlobs;
+  };
+  // Reverse-geocoding results keyed by provider and rounded coordinates
+  "geocode-cache": {
+    key: string;
+    value: GeocodeCacheEntry;
+  };
+  // Recaps published with the local storage adapter, images included
+  "published-recaps": {
+    key: string;
+    value: StoredPublishedRecap;
+  };
+}
+
+let dbPromise: Promise<IDBPDatabase<StampedRecapDB>> | null = null;
+
+// Shared connection to the app's IndexedDB database.
+// Upgrades are applied incrementally so existing drafts survive schema bumps.
+export function getDB(): Promise<IDBPDatabase<StampedRecapDB>> {
+  if (!dbPromise) {
+    dbPromise = openDB<StampedRecapDB>(DB_NAME, DB_VERSION, {
+      upgrade(db, oldVersion) {
+        if (oldVersion < 1) {
+          db.createObjectStore("draft-meta");
+          db.createObjectStore("draft-images", { keyPath: "id" });
+        }
+        if (oldVersion < 2) {
+          db.createObjectStore("geocode-cache", { keyPath: "key" });
+        }
+        if (oldVersion < 3) {
+          db.createObjectStore("published-recaps", { keyPath: "id" });
+        }
+        // Older drafts keep their blobs in draft-images until the next save moves them
+        if (oldVersion < 4) {
+          db.createObjectStore("draft-blobs", { keyPath: "id" });
+        }
+      },
+    });
+  }
+  return dbPromise;
+}
+
+export function isIndexedDBAvailable(): boolean {
+  return typeof indexedDB !== "undefined";
+}
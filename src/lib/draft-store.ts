@@ -0,0 +1,165 @@
+import { getDB, isIndexedDBAvailable } from "./db";
+import { ImageRenditions, RecapPeriod, RecapStep, TravelDestination, TravelImage, TravelRecapData, Visit } from "@/components/travel-recap/types";
+import { getYearPeriod } from "./recap-period";
+
+const DRAFT_KEY = "current";
+
+// Destinations reference images by preview URL, which dies with the page.
+// Persist them with image ids instead and map back to fresh URLs on load.
+type StoredVisit = Omit<Visit, 'images'> & { imageIds: string[] };
+type StoredDestination = Omit<TravelDestination, 'images' | 'hiddenImages' | 'visits'> & {
+  imageIds: string[];
+  hiddenImageIds?: string[];
+  visits?: StoredVisit[];
+};
+
+export interface DraftMeta {
+  step: RecapStep;
+  profile: TravelRecapData['profile'];
+  year: number;
+  period?: RecapPeriod; // Absent in drafts saved before periods were selectable
+  destinations: StoredDestination[];
+  imageIds: string[];
+  updatedAt: number;
+}
+
+// Stored apart from the blobs so a tag change doesn't rewrite every photo.
+// Object URLs are re-created from the blobs on load.
+export type StoredDraftImage = Omit<TravelImage, 'file' | 'preview' | 'thumbnail' | 'renditions' | 'video'>;
+
+export interface StoredDraftBlobs {
+  id: string;
+  file: File;
+  renditions?: ImageRenditions;
+  video?: { poster: Blob; durationMs: number };
+}
+
+// Drafts saved before the blobs moved to their own store have them inline
+type LegacyDraftImage = StoredDraftImage & Partial<Omit<StoredDraftBlobs, 'id'>>;
+
+// The images as of the last save. State updates replace an image object
+// whenever it changes, so an unchanged reference needs no write.
+let savedImages = new Map<string, TravelImage>();
+
+export interface RecapDraft {
+  step: RecapStep;
+  images: TravelImage[];
+  recapData: TravelRecapData;
+  updatedAt: number;
+}
+
+export async function saveDraft(step: RecapStep, images: TravelImage[], recapData: TravelRecapData): Promise<void> {
+  if (!isIndexedDBAvailable()) return;
+
+  const idByPreview = new Map(images.map(img => [img.preview, img.id]));
+  const toIds = (previews: string[]) => previews.map(p => idByPreview.get(p)).filter((id): id is string => !!id);
+  const meta: DraftMeta = {
+    step,
+    profile: recapData.profile,
+    year: recapData.year,
+    period: recapData.period,
+    destinations: recapData.destinations.map(({ images: previews, hiddenImages, visits, ...dest }) => ({
+      ...dest,
+      imageIds: toIds(previews),
+      hiddenImageIds: hiddenImages && toIds(hiddenImages),
+      visits: visits?.map(({ images: visitPreviews, ...visit }) => ({ ...visit, imageIds: toIds(visitPreviews) }))
+    })),
+    imageIds: images.map(img => img.id),
+    updatedAt: Date.now()
+  };
+
+  const db = await getDB();
+  const tx = db.transaction(['draft-meta', 'draft-images', 'draft-blobs'], 'readwrite');
+  const imageStore = tx.objectStore('draft-images');
+  const blobStore = tx.objectStore('draft-blobs');
+
+  // Drop images that were removed since the last save
+  const keep = new Set(meta.imageIds);
+  const [existingIds, blobIds] = await Promise.all([imageStore.getAllKeys(), blobStore.getAllKeys()]);
+  await Promise.all([
+    ...existingIds.filter(id => !keep.has(id)).map(id => imageStore.delete(id)),
+    ...blobIds.filter(id => !keep.has(id)).map(id => blobStore.delete(id))
+  ]);
+
+  // Blobs are written once per image; the small row only when it changed
+  const hasBlobs = new Set(blobIds);
+  await Promise.all(images.flatMap(img => {
+    const isNew = !hasBlobs.has(img.id);
+    if (!isNew && savedImages.get(img.id) === img) return [];
+    const { preview: _preview, thumbnail: _thumbnail, file, renditions, video, ...stored } = img;
+    const writes = [imageStore.put(stored)];
+    if (isNew) {
+      writes.push(blobStore.put({ id: img.id, file, renditions, video: video && { poster: video.poster, durationMs: video.durationMs } }));
+    }
+    return writes;
+  }));
+  await tx.objectStore('draft-meta').put(meta, DRAFT_KEY);
+  await tx.done;
+  savedImages = new Map(images.map(img => [img.id, img]));
+}
+
+export async function loadDraft(): Promise<RecapDraft | null> {
+  if (!isIndexedDBAvailable()) return null;
+
+  const db = await getDB();
+  const meta = await db.get('draft-meta', DRAFT_KEY);
+  if (!meta) return null;
+
+  const [storedImages, storedBlobs] = await Promise.all([db.getAll('draft-images'), db.getAll('draft-blobs')]);
+  const byId = new Map(storedImages.map(img => [img.id, img as LegacyDraftImage]));
+  const blobsById = new Map(storedBlobs.map(blobs => [blobs.id, blobs]));
+
+  // Re-create object URLs from the stored blobs; old blob: URLs are dead after reload.
+  // Videos preview as their poster frame, photos as their slide rendition.
+  const images: TravelImage[] = meta.imageIds.flatMap(id => {
+    const row = byId.get(id);
+    if (!row) return [];
+    const { file, renditions, video, ...stored } = row;
+    const blobs = blobsById.get(id) ?? (file && { id, file, renditions, video });
+    if (!blobs) return [];
+    return [{
+      ...stored,
+      file: blobs.file,
+      renditions: blobs.renditions,
+      preview: URL.createObjectURL(blobs.video?.poster ?? blobs.renditions?.slide ?? blobs.file),
+      thumbnail: blobs.renditions && URL.createObjectURL(blobs.renditions.thumb),
+      video: blobs.video && { ...blobs.video, src: URL.createObjectURL(blobs.file) }
+    }];
+  });
+  savedImages = new Map(images.map(img => [img.id, img]));
+  const previewById = new Map(images.map(img => [img.id, img.preview]));
+  const toPreviews = (ids: string[]) => ids.map(id => previewById.get(id)).filter((p): p is string => !!p);
+
+  const destinations: TravelDestination[] = meta.destinations.map(({ imageIds, hiddenImageIds, visits, ...dest }) => ({
+    ...dest,
+    images: toPreviews(imageIds),
+    hiddenImages: hiddenImageIds && toPreviews(hiddenImageIds),
+    visits: visits?.map(({ imageIds: visitImageIds, ...visit }) => ({ ...visit, images: toPreviews(visitImageIds) }))
+  }));
+
+  return {
+    step: meta.step,
+    images,
+    recapData: {
+      profile: meta.profile,
+      destinations,
+      year: meta.year,
+      period: meta.period ?? getYearPeriod(meta.year)
+    },
+    updatedAt: meta.updatedAt
+  };
+}
+
+export async function clearDraft(): Promise<void> {
+  if (!isIndexedDBAvailable()) return;
+
+  const db = await getDB();
+  const tx = db.transaction(['draft-meta', 'draft-images', 'draft-blobs'], 'readwrite');
+  await Promise.all([
+    tx.objectStore('draft-meta').clear(),
+    tx.objectStore('draft-images').clear(),
+    tx.objectStore('draft-blobs').clear()
+  ]);
+  await tx.done;
+  savedImages = new Map();
+}
@@ -0,0 +1,118 @@
+import type { TravelImage } from "@/components/travel-recap/types";
+import { luminance, readPixels } from "@/lib/pixels";
+
+// Spots the same photo uploaded twice and bursts of near-identical shots,
+// which would otherwise inflate per-destination photo counts.
+//
+// dHash: shrink to 9x8 greyscale and record, for each row, whether each pixel
+// is brighter than its right-hand neighbour. 64 bits, stored as 16 hex chars.
+// Re-encoded or resized copies land within a few bits of each other.
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+// Drawn at this multiple first and box-averaged down, since a single
+// drawImage straight to 9x8 skips most of the pixels
+const SUPERSAMPLE = 8;
+
+// Bits that may differ between the same scene shot twice in a burst
+const NEAR_DUPLICATE_DISTANCE = 10;
+// Similar shots further apart than this are probably a deliberate retake
+const BURST_WINDOW_MS = 2 * 60 * 1000;
+
+export interface DuplicateGroup {
+  ids: string[];
+  exact: boolean; // Every photo is the same file, e.g. a folder dropped twice
+}
+
+// Pass a small rendition; the result doesn't depend on the source's size
+export async function computeImageHash(source: Blob): Promise<string> {
+  const width = HASH_WIDTH * SUPERSAMPLE;
+  const height = HASH_HEIGHT * SUPERSAMPLE;
+  const bitmap = await createImageBitmap(source);
+  let pixels: Uint8ClampedArray;
+  try {
+    pixels = readPixels(bitmap, width, height);
+  } finally {
+    bitmap.close();
+  }
+
+  const grey = new Float64Array(HASH_WIDTH * HASH_HEIGHT);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const cell = Math.floor(y / SUPERSAMPLE) * HASH_WIDTH + Math.floor(x / SUPERSAMPLE);
+      grey[cell] += luminance(pixels, i);
+    }
+  }
+
+  let hash = '';
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    let byte = 0;
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      const left = grey[y * HASH_WIDTH + x];
+      const right = grey[y * HASH_WIDTH + x + 1];
+      byte = (byte << 1) | (left > right ? 1 : 0);
+    }
+    hash += byte.toString(16).padStart(2, '0');
+  }
+  return hash;
+}
+
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i += 2) {
+    let bits = parseInt(a.slice(i, i + 2), 16) ^ parseInt(b.slice(i, i + 2), 16);
+    while (bits) {
+      distance += bits & 1;
+      bits >>= 1;
+    }
+  }
+  return distance;
+}
+
+const isSameFile = (a: TravelImage, b: TravelImage) => a.hash === b.hash && a.file.size === b.file.size;
+
+const isNearDuplicate = (a: TravelImage, b: TravelImage) =>
+  hammingDistance(a.hash!, b.hash!) <= NEAR_DUPLICATE_DISTANCE &&
+  a.timestamp !== undefined && b.timestamp !== undefined &&
+  Math.abs(a.timestamp - b.timestamp) <= BURST_WINDOW_MS;
+
+// Groups photos that are copies of each other, transitively, so a whole burst
+// ends up in one group. Photos already set aside as duplicates are skipped, as
+// are groups where the user chose to keep everything.
+export function findDuplicateGroups(images: TravelImage[]): DuplicateGroup[] {
+  const candidates = images.filter(img => img.hash && !img.duplicateOf);
+  const parent = candidates.map((_, i) => i);
+  const root = (i: number): number => (parent[i] === i ? i : (parent[i] = root(parent[i])));
+
+  for (let i = 0; i < candidates.length; i++) {
+    for (let j = i + 1; j < candidates.length; j++) {
+      if (isSameFile(candidates[i], candidates[j]) || isNearDuplicate(candidates[i], candidates[j])) {
+        parent[root(j)] = root(i);
+      }
+    }
+  }
+
+  const members = new Map<number, TravelImage[]>();
+  candidates.forEach((img, i) => {
+    const group = members.get(root(i)) ?? [];
+    group.push(img);
+    members.set(root(i), group);
+  });
+
+  return Array.from(members.values())
+    .filter(group => group.length > 1 && group.some(img => !img.keepDuplicates))
+    .map(group => ({
+      ids: group.map(img => img.id),
+      exact: group.every(img => isSameFile(img, group[0]))
+    }));
+}
+
+// Prefers a photo with GPS, then the best shot, then the largest file: at the
+// same framing more bytes usually means more detail
+export function pickBestImage(group: TravelImage[]): TravelImage {
+  return group.reduce((best, img) => {
+    if (!!img.geoTag !== !!best.geoTag) return img.geoTag ? img : best;
+    if ((img.quality ?? 0) !== (best.quality ?? 0)) return (img.quality ?? 0) > (best.quality ?? 0) ? img : best;
+    return img.file.size > best.file.size ? img : best;
+  });
+}
@@ -0,0 +1,112 @@
+import { feature } from "topojson-client";
+import { geoContains } from "d3-geo";
+import type { Topology, GeometryCollection } from "topojson-specification";
+import type { Feature, Geometry } from "geojson";
+
+export type CountryFeature = Feature<Geometry, { name: string }>;
+
+// Natural Earth abbreviates many names; map them to the names used in COUNTRIES.
+// Territories and dependencies count as their sovereign state. Antarctica is
+// left as it is, since it belongs to no country.
+const NATURAL_EARTH_NAMES: Record<string, string> = {
+  "Åland": "Finland",
+  "American Samoa": "United States",
+  "Anguilla": "United Kingdom",
+  "Antigua and Barb.": "Antigua and Barbuda",
+  "Aruba": "Netherlands",
+  "Ashmore and Cartier Is.": "Australia",
+  "Bermuda": "United Kingdom",
+  "Bosnia and Herz.": "Bosnia and Herzegovina",
+  "Br. Indian Ocean Ter.": "United Kingdom",
+  "British Virgin Is.": "United Kingdom",
+  "Cabo Verde": "Cape Verde",
+  "Cayman Is.": "United Kingdom",
+  "Central African Rep.": "Central African Republic",
+  "Cook Is.": "New Zealand",
+  "Curaçao": "Netherlands",
+  "Côte d'Ivoire": "Ivory Coast",
+  "Czechia": "Czech Republic",
+  "Dem. Rep. Congo": "Democratic Republic of the Congo",
+  "Dominican Rep.": "Dominican Republic",
+  "Eq. Guinea": "Equatorial Guinea",
+  "eSwatini": "Eswatini",
+  "Faeroe Is.": "Denmark",
+  "Falkland Is.": "United Kingdom",
+  "Fr. Polynesia": "France",
+  "Fr. S. Antarctic Lands": "France",
+  "Greenland": "Denmark",
+  "Guam": "United States",
+  "Guernsey": "United Kingdom",
+  "Heard I. and McDonald Is.": "Australia",
+  "Hong Kong": "China",
+  "Indian Ocean Ter.": "Australia",
+  "Isle of Man": "United Kingdom",
+  "Jersey": "United Kingdom",
+  "Macao": "China",
+  "Macedonia": "North Macedonia",
+  "Marshall Is.": "Marshall Islands",
+  "Montserrat": "United Kingdom",
+  "N. Cyprus": "Cyprus",
+  "N. Mariana Is.": "United States",
+  "New Caledonia": "France",
+  "Niue": "New Zealand",
+  "Norfolk Island": "Australia",
+  "Pitcairn Is.": "United Kingdom",
+  "Puerto Rico": "United States",
+  "S. Geo. and the Is.": "United Kingdom",
+  "S. Sudan": "South Sudan",
+  "Saint Helena": "United Kingdom",
+  "Siachen Glacier": "India",
+  "Sint Maarten": "Netherlands",
+  "Solomon Is.": "Solomon Islands",
+  "Somaliland": "Somalia",
+  "St-Barthélemy": "France",
+  "St-Martin": "France",
+  "St. Kitts and Nevis": "Saint Kitts and Nevis",
+  "St. Pierre and Miquelon": "France",
+  "St. Vin. and Gren.": "Saint Vincent and the Grenadines",
+  "São Tomé and Principe": "Sao Tome and Principe",
+  "Turks and Caicos Is.": "United Kingdom",
+  "U.S. Virgin Is.": "United States",
+  "United States of America": "United States",
+  "Vatican": "Vatican City",
+  "W. Sahara": "Western Sahara",
+  "Wallis and Futuna Is.": "France",
+};
+
+export function normalizeCountryName(naturalEarthName: string): string {
+  return NATURAL_EARTH_NAMES[naturalEarthName] ?? naturalEarthName;
+}
+
+// 1:50m is accurate enough for point lookups; 1:110m is light enough to draw
+export type MapResolution = '50m' | '110m';
+
+const TOPOLOGIES: Record<MapResolution, () => Promise<{ default: unknown }>> = {
+  '50m': () => import("world-atlas/countries-50m.json"),
+  '110m': () => import("world-atlas/countries-110m.json")
+};
+
+const countriesPromises: Partial<Record<MapResolution, Promise<CountryFeature[]>>> = {};
+
+// Country polygons from the bundled world-atlas TopoJSON.
+// Loaded lazily so the datasets (~750KB at 1:50m) stay out of the main chunk.
+export function loadCountries(resolution: MapResolution = '50m'): Promise<CountryFeature[]> {
+  if (!countriesPromises[resolution]) {
+    countriesPromises[resolution] = TOPOLOGIES[resolution]().then(module => {
+      const topology = module.default as Topology<{ countries: GeometryCollection<{ name: string }> }>;
+      const collection = feature(topology, topology.objects.countries);
+      return collection.features.map(f => ({
+        ...f,
+        properties: { name: normalizeCountryName(f.properties.name) }
+      })) as CountryFeature[];
+    });
+  }
+  return countriesPromises[resolution]!;
+}
+
+// Name of the country whose polygon contains the point, if any
+export async function findCountryAt(lat: number, lng: number): Promise<string | null> {
+  const countries = await loadCountries();
+  const match = countries.find(c => geoContains(c, [lng, lat]));
+  return match ? match.properties.name : null;
+}
@@ -0,0 +1,57 @@
+import { geoArea, geoCentroid } from "d3-geo";
+import type { Polygon } from "geojson";
+import { TravelDestination } from "@/components/travel-recap/types";
+import { CITIES } from "@/lib/geocoding/cities";
+import { loadCountries } from "./countries";
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export function findGazetteerCity(name: string, country: string): LatLng | null {
+  const match = CITIES.find(([cityName, cityCountry]) =>
+    cityName.toLowerCase() === name.toLowerCase() && cityCountry.toLowerCase() === country.toLowerCase()
+  );
+  return match ? { lat: match[2], lng: match[3] } : null;
+}
+
+// Centre of the country's largest landmass, so overseas territories
+// (French Guiana, Alaska, ...) don't drag the point into the ocean
+export async function getCountryCentroid(country: string): Promise<LatLng | null> {
+  const countries = await loadCountries();
+  const match = countries.find(c => c.properties.name.toLowerCase() === country.toLowerCase());
+  if (!match) return null;
+
+  let polygon: Polygon | null = null;
+  if (match.geometry.type === 'Polygon') {
+    polygon = match.geometry;
+  } else if (match.geometry.type === 'MultiPolygon') {
+    let largestArea = -1;
+    for (const coordinates of match.geometry.coordinates) {
+      const candidate: Polygon = { type: 'Polygon', coordinates };
+      const area = geoArea(candidate);
+      if (area > largestArea) {
+        largestArea = area;
+        polygon = candidate;
+      }
+    }
+  }
+  if (!polygon) return null;
+
+  const [lng, lat] = geoCentroid(polygon);
+  return { lat, lng };
+}
+
+// Best known position for each destination, keyed by destination id:
+// photo GPS, then the gazetteer for tagged cities, then the country's centre
+export async function resolveDestinationCoordinates(destinations: TravelDestination[]): Promise<Map<string, LatLng>> {
+  const resolved = new Map<string, LatLng>();
+  for (const dest of destinations) {
+    const coordinates = dest.coordinates
+      ?? (dest.type === 'city' ? findGazetteerCity(dest.name, dest.country) : null)
+      ?? await getCountryCentroid(dest.country);
+    if (coordinates) resolved.set(dest.id, coordinates);
+  }
+  return resolved;
+}
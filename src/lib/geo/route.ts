@@ -0,0 +1,26 @@
+import { geoInterpolate } from "d3-geo";
+import { haversineKm } from "./distance";
+import type { LatLng } from "./places";
+
+export const EARTH_CIRCUMFERENCE_KM = 40075;
+
+export function getRouteDistanceKm(route: LatLng[]): number {
+  let total = 0;
+  for (let i = 1; i < route.length; i++) {
+    total += haversineKm(route[i - 1].lat, route[i - 1].lng, route[i].lat, route[i].lng);
+  }
+  return total;
+}
+
+// Points along each leg's great circle as [lng, lat], for animating along the route
+export function sampleRoute(route: LatLng[], samplesPerLeg = 24): [number, number][] {
+  if (route.length === 0) return [];
+  const samples: [number, number][] = [[route[0].lng, route[0].lat]];
+  for (let i = 1; i < route.length; i++) {
+    const interpolate = geoInterpolate([route[i - 1].lng, route[i - 1].lat], [route[i].lng, route[i].lat]);
+    for (let s = 1; s <= samplesPerLeg; s++) {
+      samples.push(interpolate(s / samplesPerLeg));
+    }
+  }
+  return samples;
+}
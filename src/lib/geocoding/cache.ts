@@ -0,0 +1,48 @@
+import { getDB, isIndexedDBAvailable } from "@/lib/db";
+import { ReverseGeocodeResult } from "./types";
+
+// 3 decimal places is ~110m: close enough to share a city, far enough to hit
+// the cache for a burst of photos taken around the same spot
+const COORDINATE_PRECISION = 3;
+const CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export interface GeocodeCacheEntry {
+  key: string;
+  // null records a lookup that found nothing, so we don't ask again
+  result: ReverseGeocodeResult | null;
+  cachedAt: number;
+}
+
+export function geocodeCacheKey(provider: string, lat: number, lng: number): string {
+  return `${provider}:${lat.toFixed(COORDINATE_PRECISION)},${lng.toFixed(COORDINATE_PRECISION)}`;
+}
+
+// Returns undefined on a miss (as opposed to a cached null result)
+export async function readGeocodeCache(key: string): Promise<ReverseGeocodeResult | null | undefined> {
+  if (!isIndexedDBAvailable()) return undefined;
+  try {
+    const db = await getDB();
+    const entry = await db.get('geocode-cache', key);
+    if (!entry || Date.now() - entry.cachedAt > CACHE_TTL_MS) return undefined;
+    return entry.result;
+  } catch (err) {
+    console.error('Geocode cache read failed:', err);
+    return undefined;
+  }
+}
+
+export async function writeGeocodeCache(key: string, result: ReverseGeocodeResult | null): Promise<void> {
+  if (!isIndexedDBAvailable()) return;
+  try {
+    const db = await getDB();
+    await db.put('geocode-cache', { key, result, cachedAt: Date.now() });
+  } catch (err) {
+    console.error('Geocode cache write failed:', err);
+  }
+}
+
+export async function clearGeocodeCache(): Promise<void> {
+  if (!isIndexedDBAvailable()) return;
+  const db = await getDB();
+  await db.clear('geocode-cache');
+}
@@ -0,0 +1,430 @@
+// Bundled city gazetteer used by the offline reverse geocoder.
+// Each entry: [name, country, lat, lng, population]. Country names match COUNTRIES.
+// Covers large cities plus popular destinations; extend as needed.
+export type CityEntry = [name: string, country: string, lat: number, lng: number, population: number];
+
+export const CITIES: CityEntry[] = [
+  // Europe
+  ["London", "United Kingdom", 51.5074, -0.1278, 8982000],
+  ["Manchester", "United Kingdom", 53.4808, -2.2426, 553000],
+  ["Birmingham", "United Kingdom", 52.4862, -1.8904, 1141000],
+  ["Liverpool", "United Kingdom", 53.4084, -2.9916, 496000],
+  ["Edinburgh", "United Kingdom", 55.9533, -3.1883, 527000],
+  ["Glasgow", "United Kingdom", 55.8642, -4.2518, 635000],
+  ["Oxford", "United Kingdom", 51.7520, -1.2577, 152000],
+  ["Cambridge", "United Kingdom", 52.2053, 0.1218, 145000],
+  ["Bath", "United Kingdom", 51.3811, -2.3590, 101000],
+  ["Belfast", "United Kingdom", 54.5973, -5.9301, 345000],
+  ["Dublin", "Ireland", 53.3498, -6.2603, 1173000],
+  ["Cork", "Ireland", 51.8985, -8.4756, 210000],
+  ["Paris", "France", 48.8566, 2.3522, 2161000],
+  ["Marseille", "France", 43.2965, 5.3698, 870000],
+  ["Lyon", "France", 45.7640, 4.8357, 516000],
+  ["Nice", "France", 43.7102, 7.2620, 342000],
+  ["Bordeaux", "France", 44.8378, -0.5792, 257000],
+  ["Toulouse", "France", 43.6047, 1.4442, 479000],
+  ["Strasbourg", "France", 48.5734, 7.7521, 284000],
+  ["Cannes", "France", 43.5528, 7.0174, 74000],
+  ["Monaco", "Monaco", 43.7384, 7.4246, 39000],
+  ["Brussels", "Belgium", 50.8503, 4.3517, 1209000],
+  ["Antwerp", "Belgium", 51.2194, 4.4025, 530000],
+  ["Bruges", "Belgium", 51.2093, 3.2247, 118000],
+  ["Amsterdam", "Netherlands", 52.3676, 4.9041, 872000],
+  ["Rotterdam", "Netherlands", 51.9244, 4.4777, 651000],
+  ["The Hague", "Netherlands", 52.0705, 4.3007, 545000],
+  ["Utrecht", "Netherlands", 52.0907, 5.1214, 361000],
+  ["Luxembourg", "Luxembourg", 49.6116, 6.1319, 128000],
+  ["Berlin", "Germany", 52.5200, 13.4050, 3645000],
+  ["Hamburg", "Germany", 53.5511, 9.9937, 1841000],
+  ["Munich", "Germany", 48.1351, 11.5820, 1472000],
+  ["Cologne", "Germany", 50.9375, 6.9603, 1086000],
+  ["Frankfurt", "Germany", 50.1109, 8.6821, 753000],
+  ["Stuttgart", "Germany", 48.7758, 9.1829, 635000],
+  ["Düsseldorf", "Germany", 51.2277, 6.7735, 619000],
+  ["Dresden", "Germany", 51.0504, 13.7373, 556000],
+  ["Leipzig", "Germany", 51.3397, 12.3731, 597000],
+  ["Heidelberg", "Germany", 49.3988, 8.6724, 160000],
+  ["Zurich", "Switzerland", 47.3769, 8.5417, 421000],
+  ["Geneva", "Switzerland", 46.2044, 6.1432, 203000],
+  ["Bern", "Switzerland", 46.9480, 7.4474, 134000],
+  ["Basel", "Switzerland", 47.5596, 7.5886, 178000],
+  ["Lucerne", "Switzerland", 47.0502, 8.3093, 82000],
+  ["Interlaken", "Switzerland", 46.6863, 7.8632, 6000],
+  ["Zermatt", "Switzerland", 46.0207, 7.7491, 6000],
+  ["Vaduz", "Liechtenstein", 47.1410, 9.5209, 6000],
+  ["Vienna", "Austria", 48.2082, 16.3738, 1911000],
+  ["Salzburg", "Austria", 47.8095, 13.0550, 155000],
+  ["Innsbruck", "Austria", 47.2692, 11.4041, 132000],
+  ["Hallstatt", "Austria", 47.5622, 13.6493, 1000],
+  ["Rome", "Italy", 41.9028, 12.4964, 2873000],
+  ["Milan", "Italy", 45.4642, 9.1900, 1352000],
+  ["Naples", "Italy", 40.8518, 14.2681, 959000],
+  ["Turin", "Italy", 45.0703, 7.6869, 870000],
+  ["Florence", "Italy", 43.7696, 11.2558, 382000],
+  ["Venice", "Italy", 45.4408, 12.3155, 261000],
+  ["Bologna", "Italy", 44.4949, 11.3426, 390000],
+  ["Palermo", "Italy", 38.1157, 13.3615, 668000],
+  ["Pisa", "Italy", 43.7228, 10.4017, 90000],
+  ["Verona", "Italy", 45.4384, 10.9916, 257000],
+  ["Amalfi", "Italy", 40.6340, 14.6027, 5000],
+  ["Positano", "Italy", 40.6281, 14.4850, 4000],
+  ["Como", "Italy", 45.8081, 9.0852, 84000],
+  ["Vatican City", "Vatican City", 41.9029, 12.4534, 800],
+  ["San Marino", "San Marino", 43.9424, 12.4578, 4000],
+  ["Madrid", "Spain", 40.4168, -3.7038, 3223000],
+  ["Barcelona", "Spain", 41.3851, 2.1734, 1620000],
+  ["Valencia", "Spain", 39.4699, -0.3763, 791000],
+  ["Seville", "Spain", 37.3891, -5.9845, 688000],
+  ["Málaga", "Spain", 36.7213, -4.4214, 571000],
+  ["Granada", "Spain", 37.1773, -3.5986, 232000],
+  ["Bilbao", "Spain", 43.2630, -2.9350, 345000],
+  ["San Sebastián", "Spain", 43.3183, -1.9812, 187000],
+  ["Palma", "Spain", 39.5696, 2.6502, 416000],
+  ["Ibiza", "Spain", 38.9067, 1.4206, 50000],
+  ["Las Palmas", "Spain", 28.1235, -15.4363, 379000],
+  ["Santa Cruz de Tenerife", "Spain", 28.4636, -16.2518, 207000],
+  ["Andorra la Vella", "Andorra", 42.5063, 1.5218, 22000],
+  ["Lisbon", "Portugal", 38.7223, -9.1393, 545000],
+  ["Porto", "Portugal", 41.1579, -8.6291, 232000],
+  ["Faro", "Portugal", 37.0194, -7.9322, 65000],
+  ["Funchal", "Portugal", 32.6669, -16.9241, 105000],
+  ["Copenhagen", "Denmark", 55.6761, 12.5683, 799000],
+  ["Aarhus", "Denmark", 56.1629, 10.2039, 285000],
+  ["Stockholm", "Sweden", 59.3293, 18.0686, 975000],
+  ["Gothenburg", "Sweden", 57.7089, 11.9746, 583000],
+  ["Oslo", "Norway", 59.9139, 10.7522, 697000],
+  ["Bergen", "Norway", 60.3913, 5.3221, 285000],
+  ["Tromsø", "Norway", 69.6492, 18.9553, 77000],
+  ["Helsinki", "Finland", 60.1699, 24.9384, 656000],
+  ["Rovaniemi", "Finland", 66.5039, 25.7294, 64000],
+  ["Reykjavik", "Iceland", 64.1466, -21.9426, 131000],
+  ["Tallinn", "Estonia", 59.4370, 24.7536, 437000],
+  ["Riga", "Latvia", 56.9496, 24.1052, 632000],
+  ["Vilnius", "Lithuania", 54.6872, 25.2797, 588000],
+  ["Warsaw", "Poland", 52.2297, 21.0122, 1794000],
+  ["Kraków", "Poland", 50.0647, 19.9450, 780000],
+  ["Gdańsk", "Poland", 54.3520, 18.6466, 470000],
+  ["Wrocław", "Poland", 51.1079, 17.0385, 643000],
+  ["Prague", "Czech Republic", 50.0755, 14.4378, 1309000],
+  ["Brno", "Czech Republic", 49.1951, 16.6068, 381000],
+  ["Český Krumlov", "Czech Republic", 48.8127, 14.3175, 13000],
+  ["Bratislava", "Slovakia", 48.1486, 17.1077, 475000],
+  ["Budapest", "Hungary", 47.4979, 19.0402, 1752000],
+  ["Ljubljana", "Slovenia", 46.0569, 14.5058, 295000],
+  ["Bled", "Slovenia", 46.3683, 14.1146, 8000],
+  ["Zagreb", "Croatia", 45.8150, 15.9819, 806000],
+  ["Split", "Croatia", 43.5081, 16.4402, 178000],
+  ["Dubrovnik", "Croatia", 42.6507, 18.0944, 42000],
+  ["Sarajevo", "Bosnia and Herzegovina", 43.8563, 18.4131, 275000],
+  ["Mostar", "Bosnia and Herzegovina", 43.3438, 17.8078, 105000],
+  ["Belgrade", "Serbia", 44.7866, 20.4489, 1166000],
+  ["Podgorica", "Montenegro", 42.4304, 19.2594, 150000],
+  ["Kotor", "Montenegro", 42.4247, 18.7712, 13000],
+  ["Tirana", "Albania", 41.3275, 19.8187, 418000],
+  ["Skopje", "North Macedonia", 41.9981, 21.4254, 526000],
+  ["Ohrid", "North Macedonia", 41.1231, 20.8016, 42000],
+  ["Sofia", "Bulgaria", 42.6977, 23.3219, 1236000],
+  ["Varna", "Bulgaria", 43.2141, 27.9147, 336000],
+  ["Bucharest", "Romania", 44.4268, 26.1025, 1883000],
+  ["Cluj-Napoca", "Romania", 46.7712, 23.6236, 324000],
+  ["Brașov", "Romania", 45.6579, 25.6012, 253000],
+  ["Chișinău", "Moldova", 47.0105, 28.8638, 532000],
+  ["Kyiv", "Ukraine", 50.4501, 30.5234, 2884000],
+  ["Lviv", "Ukraine", 49.8397, 24.0297, 721000],
+  ["Odesa", "Ukraine", 46.4825, 30.7233, 1015000],
+  ["Minsk", "Belarus", 53.9006, 27.5590, 2009000],
+  ["Athens", "Greece", 37.9838, 23.7275, 664000],
+  ["Thessaloniki", "Greece", 40.6401, 22.9444, 325000],
+  ["Santorini", "Greece", 36.4167, 25.4333, 15000],
+  ["Mykonos", "Greece", 37.4467, 25.3289, 10000],
+  ["Heraklion", "Greece", 35.3387, 25.1442, 173000],
+  ["Rhodes", "Greece", 36.4349, 28.2176, 50000],
+  ["Corfu", "Greece", 39.6243, 19.9217, 32000],
+  ["Valletta", "Malta", 35.8989, 14.5146, 6000],
+  ["Nicosia", "Cyprus", 35.1856, 33.3823, 330000],
+  ["Limassol", "Cyprus", 34.7071, 33.0226, 235000],
+  ["Paphos", "Cyprus", 34.7720, 32.4297, 35000],
+  ["Istanbul", "Turkey", 41.0082, 28.9784, 15460000],
+  ["Ankara", "Turkey", 39.9334, 32.8597, 5663000],
+  ["Izmir", "Turkey", 38.4237, 27.1428, 4367000],
+  ["Antalya", "Turkey", 36.8969, 30.7133, 2548000],
+  ["Göreme", "Turkey", 38.6431, 34.8289, 2000],
+  ["Bodrum", "Turkey", 37.0344, 27.4305, 40000],
+  ["Moscow", "Russia", 55.7558, 37.6173, 12506000],
+  ["Saint Petersburg", "Russia", 59.9311, 30.3609, 5384000],
+  ["Tbilisi", "Georgia", 41.7151, 44.8271, 1118000],
+  ["Batumi", "Georgia", 41.6168, 41.6367, 169000],
+  ["Yerevan", "Armenia", 40.1792, 44.4991, 1093000],
+  ["Baku", "Azerbaijan", 40.4093, 49.8671, 2293000],
+
+  // Middle East
+  ["Dubai", "United Arab Emirates", 25.2048, 55.2708, 3331000],
+  ["Abu Dhabi", "United Arab Emirates", 24.4539, 54.3773, 1483000],
+  ["Doha", "Qatar", 25.2854, 51.5310, 2382000],
+  ["Manama", "Bahrain", 26.2285, 50.5860, 157000],
+  ["Kuwait City", "Kuwait", 29.3759, 47.9774, 2989000],
+  ["Riyadh", "Saudi Arabia", 24.7136, 46.6753, 7677000],
+  ["Jeddah", "Saudi Arabia", 21.4858, 39.1925, 4697000],
+  ["Mecca", "Saudi Arabia", 21.3891, 39.8579, 2042000],
+  ["Muscat", "Oman", 23.5880, 58.3829, 1421000],
+  ["Amman", "Jordan", 31.9454, 35.9284, 4007000],
+  ["Petra", "Jordan", 30.3285, 35.4444, 1000],
+  ["Jerusalem", "Israel", 31.7683, 35.2137, 936000],
+  ["Tel Aviv", "Israel", 32.0853, 34.7818, 460000],
+  ["Beirut", "Lebanon", 33.8938, 35.5018, 2424000],
+  ["Tehran", "Iran", 35.6892, 51.3890, 8694000],
+  ["Isfahan", "Iran", 32.6546, 51.6680, 1961000],
+  ["Baghdad", "Iraq", 33.3152, 44.3661, 7144000],
+
+  // Africa
+  ["Cairo", "Egypt", 30.0444, 31.2357, 9540000],
+  ["Giza", "Egypt", 30.0131, 31.2089, 4367000],
+  ["Alexandria", "Egypt", 31.2001, 29.9187, 5200000],
+  ["Luxor", "Egypt", 25.6872, 32.6396, 507000],
+  ["Sharm El Sheikh", "Egypt", 27.9158, 34.3299, 73000],
+  ["Hurghada", "Egypt", 27.2579, 33.8116, 248000],
+  ["Marrakesh", "Morocco", 31.6295, -7.9811, 929000],
+  ["Casablanca", "Morocco", 33.5731, -7.5898, 3360000],
+  ["Fez", "Morocco", 34.0181, -5.0078, 1112000],
+  ["Rabat", "Morocco", 34.0209, -6.8416, 578000],
+  ["Chefchaouen", "Morocco", 35.1688, -5.2636, 43000],
+  ["Tangier", "Morocco", 35.7595, -5.8340, 947000],
+  ["Tunis", "Tunisia", 36.8065, 10.1815, 1056000],
+  ["Algiers", "Algeria", 36.7538, 3.0588, 3416000],
+  ["Lagos", "Nigeria", 6.5244, 3.3792, 15388000],
+  ["Abuja", "Nigeria", 9.0765, 7.3986, 3464000],
+  ["Accra", "Ghana", 5.6037, -0.1870, 2514000],
+  ["Dakar", "Senegal", 14.7167, -17.4677, 3140000],
+  ["Addis Ababa", "Ethiopia", 9.0300, 38.7400, 3604000],
+  ["Nairobi", "Kenya", -1.2921, 36.8219, 4397000],
+  ["Mombasa", "Kenya", -4.0435, 39.6682, 1208000],
+  ["Kigali", "Rwanda", -1.9441, 30.0619, 1132000],
+  ["Kampala", "Uganda", 0.3476, 32.5825, 1680000],
+  ["Dar es Salaam", "Tanzania", -6.7924, 39.2083, 4365000],
+  ["Zanzibar City", "Tanzania", -6.1659, 39.2026, 593000],
+  ["Arusha", "Tanzania", -3.3869, 36.6830, 617000],
+  ["Johannesburg", "South Africa", -26.2041, 28.0473, 5635000],
+  ["Cape Town", "South Africa", -33.9249, 18.4241, 4618000],
+  ["Durban", "South Africa", -29.8587, 31.0218, 3720000],
+  ["Pretoria", "South Africa", -25.7479, 28.2293, 2473000],
+  ["Windhoek", "Namibia", -22.5609, 17.0658, 431000],
+  ["Victoria Falls", "Zimbabwe", -17.9243, 25.8572, 35000],
+  ["Harare", "Zimbabwe", -17.8252, 31.0335, 1542000],
+  ["Lusaka", "Zambia", -15.3875, 28.3228, 2731000],
+  ["Gaborone", "Botswana", -24.6282, 25.9231, 246000],
+  ["Maputo", "Mozambique", -25.9692, 32.5732, 1124000],
+  ["Antananarivo", "Madagascar", -18.8792, 47.5079, 1275000],
+  ["Port Louis", "Mauritius", -20.1609, 57.5012, 147000],
+  ["Victoria", "Seychelles", -4.6191, 55.4513, 26000],
+  ["Luanda", "Angola", -8.8390, 13.2894, 8330000],
+  ["Kinshasa", "Democratic Republic of the Congo", -4.4419, 15.2663, 14970000],
+
+  // Asia
+  ["Tokyo", "Japan", 35.6762, 139.6503, 13960000],
+  ["Osaka", "Japan", 34.6937, 135.5023, 2752000],
+  ["Kyoto", "Japan", 35.0116, 135.7681, 1464000],
+  ["Yokohama", "Japan", 35.4437, 139.6380, 3749000],
+  ["Nagoya", "Japan", 35.1815, 136.9066, 2327000],
+  ["Sapporo", "Japan", 43.0618, 141.3545, 1973000],
+  ["Fukuoka", "Japan", 33.5904, 130.4017, 1612000],
+  ["Hiroshima", "Japan", 34.3853, 132.4553, 1199000],
+  ["Nara", "Japan", 34.6851, 135.8048, 354000],
+  ["Naha", "Japan", 26.2124, 127.6809, 317000],
+  ["Seoul", "South Korea", 37.5665, 126.9780, 9776000],
+  ["Busan", "South Korea", 35.1796, 129.0756, 3429000],
+  ["Jeju City", "South Korea", 33.4996, 126.5312, 493000],
+  ["Pyongyang", "North Korea", 39.0392, 125.7625, 3255000],
+  ["Beijing", "China", 39.9042, 116.4074, 21540000],
+  ["Shanghai", "China", 31.2304, 121.4737, 24870000],
+  ["Guangzhou", "China", 23.1291, 113.2644, 18676000],
+  ["Shenzhen", "China", 22.5431, 114.0579, 17494000],
+  ["Chengdu", "China", 30.5728, 104.0668, 20938000],
+  ["Xi'an", "China", 34.3416, 108.9398, 12953000],
+  ["Hangzhou", "China", 30.2741, 120.1551, 11936000],
+  ["Guilin", "China", 25.2736, 110.2900, 4931000],
+  ["Hong Kong", "China", 22.3193, 114.1694, 7482000],
+  ["Macau", "China", 22.1987, 113.5439, 683000],
+  ["Taipei", "Taiwan", 25.0330, 121.5654, 2646000],
+  ["Kaohsiung", "Taiwan", 22.6273, 120.3014, 2765000],
+  ["Ulaanbaatar", "Mongolia", 47.8864, 106.9057, 1540000],
+  ["Bangkok", "Thailand", 13.7563, 100.5018, 10539000],
+  ["Chiang Mai", "Thailand", 18.7883, 98.9853, 131000],
+  ["Phuket", "Thailand", 7.8804, 98.3923, 416000],
+  ["Krabi", "Thailand", 8.0863, 98.9063, 32000],
+  ["Pattaya", "Thailand", 12.9236, 100.8825, 119000],
+  ["Koh Samui", "Thailand", 9.5120, 100.0136, 63000],
+  ["Hanoi", "Vietnam", 21.0278, 105.8342, 8054000],
+  ["Ho Chi Minh City", "Vietnam", 10.8231, 106.6297, 8993000],
+  ["Da Nang", "Vietnam", 16.0544, 108.2022, 1134000],
+  ["Hoi An", "Vietnam", 15.8801, 108.3380, 121000],
+  ["Ha Long", "Vietnam", 20.9517, 107.0748, 300000],
+  ["Phnom Penh", "Cambodia", 11.5564, 104.9282, 2129000],
+  ["Siem Reap", "Cambodia", 13.3671, 103.8448, 245000],
+  ["Vientiane", "Laos", 17.9757, 102.6331, 948000],
+  ["Luang Prabang", "Laos", 19.8856, 102.1347, 56000],
+  ["Yangon", "Myanmar", 16.8409, 96.1735, 5160000],
+  ["Kuala Lumpur", "Malaysia", 3.1390, 101.6869, 1808000],
+  ["George Town", "Malaysia", 5.4141, 100.3288, 708000],
+  ["Kota Kinabalu", "Malaysia", 5.9804, 116.0735, 500000],
+  ["Singapore", "Singapore", 1.3521, 103.8198, 5686000],
+  ["Jakarta", "Indonesia", -6.2088, 106.8456, 10562000],
+  ["Denpasar", "Indonesia", -8.6705, 115.2126, 726000],
+  ["Ubud", "Indonesia", -8.5069, 115.2625, 74000],
+  ["Yogyakarta", "Indonesia", -7.7956, 110.3695, 422000],
+  ["Bandar Seri Begawan", "Brunei", 4.9031, 114.9398, 100000],
+  ["Manila", "Philippines", 14.5995, 120.9842, 1847000],
+  ["Cebu City", "Philippines", 10.3157, 123.8854, 964000],
+  ["El Nido", "Philippines", 11.1950, 119.4010, 50000],
+  ["Dili", "Timor-Leste", -8.5569, 125.5603, 222000],
+  ["Delhi", "India", 28.7041, 77.1025, 16787000],
+  ["Mumbai", "India", 19.0760, 72.8777, 12442000],
+  ["Bengaluru", "India", 12.9716, 77.5946, 8443000],
+  ["Kolkata", "India", 22.5726, 88.3639, 4497000],
+  ["Chennai", "India", 13.0827, 80.2707, 7088000],
+  ["Hyderabad", "India", 17.3850, 78.4867, 6810000],
+  ["Jaipur", "India", 26.9124, 75.7873, 3046000],
+  ["Agra", "India", 27.1767, 78.0081, 1585000],
+  ["Goa", "India", 15.4909, 73.8278, 1459000],
+  ["Varanasi", "India", 25.3176, 82.9739, 1201000],
+  ["Udaipur", "India", 24.5854, 73.7125, 451000],
+  ["Kathmandu", "Nepal", 27.7172, 85.3240, 1442000],
+  ["Pokhara", "Nepal", 28.2096, 83.9856, 518000],
+  ["Thimphu", "Bhutan", 27.4728, 89.6390, 115000],
+  ["Dhaka", "Bangladesh", 23.8103, 90.4125, 8906000],
+  ["Colombo", "Sri Lanka", 6.9271, 79.8612, 753000],
+  ["Kandy", "Sri Lanka", 7.2906, 80.6337, 125000],
+  ["Malé", "Maldives", 4.1755, 73.5093, 133000],
+  ["Karachi", "Pakistan", 24.8607, 67.0011, 14910000],
+  ["Lahore", "Pakistan", 31.5204, 74.3587, 11126000],
+  ["Islamabad", "Pakistan", 33.6844, 73.0479, 1015000],
+  ["Kabul", "Afghanistan", 34.5553, 69.2075, 4434000],
+  ["Tashkent", "Uzbekistan", 41.2995, 69.2401, 2571000],
+  ["Samarkand", "Uzbekistan", 39.6270, 66.9750, 513000],
+  ["Almaty", "Kazakhstan", 43.2220, 76.8512, 1977000],
+  ["Astana", "Kazakhstan", 51.1694, 71.4491, 1136000],
+  ["Bishkek", "Kyrgyzstan", 42.8746, 74.5698, 1053000],
+
+  // North America
+  ["New York", "United States", 40.7128, -74.0060, 8336000],
+  ["Los Angeles", "United States", 34.0522, -118.2437, 3979000],
+  ["Chicago", "United States", 41.8781, -87.6298, 2693000],
+  ["Houston", "United States", 29.7604, -95.3698, 2320000],
+  ["Phoenix", "United States", 33.4484, -112.0740, 1680000],
+  ["Philadelphia", "United States", 39.9526, -75.1652, 1584000],
+  ["San Antonio", "United States", 29.4241, -98.4936, 1547000],
+  ["San Diego", "United States", 32.7157, -117.1611, 1423000],
+  ["Dallas", "United States", 32.7767, -96.7970, 1343000],
+  ["Austin", "United States", 30.2672, -97.7431, 978000],
+  ["San Francisco", "United States", 37.7749, -122.4194, 881000],
+  ["San Jose", "United States", 37.3382, -121.8863, 1021000],
+  ["Seattle", "United States", 47.6062, -122.3321, 753000],
+  ["Portland", "United States", 45.5152, -122.6784, 654000],
+  ["Denver", "United States", 39.7392, -104.9903, 727000],
+  ["Las Vegas", "United States", 36.1699, -115.1398, 651000],
+  ["Washington", "United States", 38.9072, -77.0369, 705000],
+  ["Boston", "United States", 42.3601, -71.0589, 692000],
+  ["Miami", "United States", 25.7617, -80.1918, 467000],
+  ["Orlando", "United States", 28.5383, -81.3792, 287000],
+  ["Atlanta", "United States", 33.7490, -84.3880, 498000],
+  ["Nashville", "United States", 36.1627, -86.7816, 670000],
+  ["New Orleans", "United States", 29.9511, -90.0715, 390000],
+  ["Honolulu", "United States", 21.3069, -157.8583, 345000],
+  ["Anchorage", "United States", 61.2181, -149.9003, 291000],
+  ["Salt Lake City", "United States", 40.7608, -111.8910, 200000],
+  ["Detroit", "United States", 42.3314, -83.0458, 670000],
+  ["Minneapolis", "United States", 44.9778, -93.2650, 429000],
+  ["Toronto", "Canada", 43.6532, -79.3832, 2731000],
+  ["Montreal", "Canada", 45.5017, -73.5673, 1780000],
+  ["Vancouver", "Canada", 49.2827, -123.1207, 675000],
+  ["Calgary", "Canada", 51.0447, -114.0719, 1336000],
+  ["Ottawa", "Canada", 45.4215, -75.6972, 994000],
+  ["Quebec City", "Canada", 46.8139, -71.2080, 542000],
+  ["Banff", "Canada", 51.1784, -115.5708, 8000],
+  ["Mexico City", "Mexico", 19.4326, -99.1332, 9209000],
+  ["Guadalajara", "Mexico", 20.6597, -103.3496, 1385000],
+  ["Monterrey", "Mexico", 25.6866, -100.3161, 1142000],
+  ["Cancún", "Mexico", 21.1619, -86.8515, 888000],
+  ["Tulum", "Mexico", 20.2114, -87.4654, 46000],
+  ["Playa del Carmen", "Mexico", 20.6296, -87.0739, 304000],
+  ["Oaxaca", "Mexico", 17.0732, -96.7266, 270000],
+  ["Puerto Vallarta", "Mexico", 20.6534, -105.2253, 291000],
+  ["Cabo San Lucas", "Mexico", 22.8905, -109.9167, 202000],
+  ["Havana", "Cuba", 23.1136, -82.3666, 2130000],
+  ["Santo Domingo", "Dominican Republic", 18.4861, -69.9312, 2908000],
+  ["Punta Cana", "Dominican Republic", 18.5601, -68.3725, 100000],
+  ["San Juan", "United States", 18.4655, -66.1057, 342000],
+  ["Kingston", "Jamaica", 17.9712, -76.7936, 662000],
+  ["Montego Bay", "Jamaica", 18.4762, -77.8939, 110000],
+  ["Nassau", "Bahamas", 25.0443, -77.3504, 274000],
+  ["Bridgetown", "Barbados", 13.1132, -59.5988, 110000],
+  ["Port of Spain", "Trinidad and Tobago", 10.6603, -61.5086, 37000],
+  ["Guatemala City", "Guatemala", 14.6349, -90.5069, 2450000],
+  ["Antigua Guatemala", "Guatemala", 14.5586, -90.7295, 46000],
+  ["San Salvador", "El Salvador", 13.6929, -89.2182, 570000],
+  ["Tegucigalpa", "Honduras", 14.0723, -87.1921, 1157000],
+  ["Managua", "Nicaragua", 12.1150, -86.2362, 1056000],
+  ["San José", "Costa Rica", 9.9281, -84.0907, 342000],
+  ["Panama City", "Panama", 8.9824, -79.5199, 880000],
+  ["Belize City", "Belize", 17.5046, -88.1962, 61000],
+
+  // South America
+  ["São Paulo", "Brazil", -23.5505, -46.6333, 12325000],
+  ["Rio de Janeiro", "Brazil", -22.9068, -43.1729, 6748000],
+  ["Brasília", "Brazil", -15.8267, -47.9218, 3055000],
+  ["Salvador", "Brazil", -12.9777, -38.5016, 2887000],
+  ["Fortaleza", "Brazil", -3.7319, -38.5267, 2687000],
+  ["Belo Horizonte", "Brazil", -19.9167, -43.9345, 2521000],
+  ["Manaus", "Brazil", -3.1190, -60.0217, 2219000],
+  ["Florianópolis", "Brazil", -27.5954, -48.5480, 508000],
+  ["Foz do Iguaçu", "Brazil", -25.5469, -54.5882, 258000],
+  ["Buenos Aires", "Argentina", -34.6037, -58.3816, 3075000],
+  ["Córdoba", "Argentina", -31.4201, -64.1888, 1391000],
+  ["Mendoza", "Argentina", -32.8895, -68.8458, 115000],
+  ["Bariloche", "Argentina", -41.1335, -71.3103, 112000],
+  ["Ushuaia", "Argentina", -54.8019, -68.3030, 57000],
+  ["El Calafate", "Argentina", -50.3379, -72.2648, 22000],
+  ["Santiago", "Chile", -33.4489, -70.6693, 6257000],
+  ["Valparaíso", "Chile", -33.0472, -71.6127, 296000],
+  ["San Pedro de Atacama", "Chile", -22.9087, -68.1997, 11000],
+  ["Puerto Natales", "Chile", -51.7236, -72.4875, 21000],
+  ["Lima", "Peru", -12.0464, -77.0428, 9752000],
+  ["Cusco", "Peru", -13.5319, -71.9675, 428000],
+  ["Arequipa", "Peru", -16.4090, -71.5375, 1008000],
+  ["Bogotá", "Colombia", 4.7110, -74.0721, 7412000],
+  ["Medellín", "Colombia", 6.2442, -75.5812, 2569000],
+  ["Cartagena", "Colombia", 10.3910, -75.4794, 1028000],
+  ["Cali", "Colombia", 3.4516, -76.5320, 2228000],
+  ["Quito", "Ecuador", -0.1807, -78.4678, 2011000],
+  ["Guayaquil", "Ecuador", -2.1710, -79.9224, 2698000],
+  ["La Paz", "Bolivia", -16.4897, -68.1193, 812000],
+  ["Uyuni", "Bolivia", -20.4600, -66.8250, 30000],
+  ["Caracas", "Venezuela", 10.4806, -66.9036, 2082000],
+  ["Montevideo", "Uruguay", -34.9011, -56.1645, 1319000],
+  ["Punta del Este", "Uruguay", -34.9475, -54.9338, 9000],
+  ["Asunción", "Paraguay", -25.2637, -57.5759, 525000],
+  ["Georgetown", "Guyana", 6.8013, -58.1551, 200000],
+  ["Paramaribo", "Suriname", 5.8520, -55.2038, 241000],
+
+  // Oceania
+  ["Sydney", "Australia", -33.8688, 151.2093, 5312000],
+  ["Melbourne", "Australia", -37.8136, 144.9631, 5078000],
+  ["Brisbane", "Australia", -27.4698, 153.0251, 2560000],
+  ["Perth", "Australia", -31.9505, 115.8605, 2085000],
+  ["Adelaide", "Australia", -34.9285, 138.6007, 1376000],
+  ["Gold Coast", "Australia", -28.0167, 153.4000, 699000],
+  ["Cairns", "Australia", -16.9186, 145.7781, 153000],
+  ["Canberra", "Australia", -35.2809, 149.1300, 431000],
+  ["Hobart", "Australia", -42.8821, 147.3272, 240000],
+  ["Darwin", "Australia", -12.4634, 130.8456, 147000],
+  ["Auckland", "New Zealand", -36.8485, 174.7633, 1657000],
+  ["Wellington", "New Zealand", -41.2865, 174.7762, 215000],
+  ["Christchurch", "New Zealand", -43.5321, 172.6362, 381000],
+  ["Queenstown", "New Zealand", -45.0312, 168.6626, 16000],
+  ["Rotorua", "New Zealand", -38.1368, 176.2497, 58000],
+  ["Suva", "Fiji", -18.1248, 178.4501, 93000],
+  ["Nadi", "Fiji", -17.7765, 177.4356, 71000],
+  ["Port Moresby", "Papua New Guinea", -9.4438, 147.1803, 364000],
+  ["Apia", "Samoa", -13.8506, -171.7513, 37000],
+  ["Nuku'alofa", "Tonga", -21.1394, -175.2049, 23000],
+  ["Port Vila", "Vanuatu", -17.7333, 168.3273, 51000],
+];
@@ -0,0 +1,85 @@
+import { createOfflineProvider } from "./offline";
+import { createNominatimProvider } from "./nominatim";
+import { createMockProvider } from "./mock";
+import { createRequestQueue, withRetry, RetryOptions } from "./queue";
+import { geocodeCacheKey, readGeocodeCache, writeGeocodeCache } from "./cache";
+import { GeocodingProvider, ReverseGeocoder, ReverseGeocodeResult } from "./types";
+
+export type { GeocodingProvider, ReverseGeocoder, ReverseGeocodeResult } from "./types";
+export { GeocodingRequestError } from "./types";
+export { createOfflineProvider } from "./offline";
+export { createNominatimProvider } from "./nominatim";
+export { createMockProvider } from "./mock";
+export { clearGeocodeCache } from "./cache";
+
+// Minimum population for gazetteer cities used in suggestions
+export const MIN_CITY_POPULATION = 1000;
+
+// Wraps a provider with the IndexedDB cache, its rate-limited queue and retries
+export function withGeocodingPolicy(provider: GeocodingProvider, retry?: RetryOptions): ReverseGeocoder {
+  const enqueue = createRequestQueue(provider.minIntervalMs);
+
+  return {
+    name: provider.name,
+    async reverse(lat, lng) {
+      const key = geocodeCacheKey(provider.name, lat, lng);
+      if (provider.cacheable) {
+        const cached = await readGeocodeCache(key);
+        if (cached !== undefined) return cached;
+      }
+
+      const result = await withRetry(() => enqueue(() => provider.reverse(lat, lng)), retry);
+      if (provider.cacheable) {
+        await writeGeocodeCache(key, result);
+      }
+      return result;
+    }
+  };
+}
+
+// Asks each provider in turn until one names a city. A country from an earlier
+// provider wins over later ones, since the offline polygons are authoritative.
+export function createReverseGeocoder(providers: GeocodingProvider[], retry?: RetryOptions): ReverseGeocoder {
+  const chain = providers.map(p => withGeocodingPolicy(p, retry));
+
+  return {
+    name: providers.map(p => p.name).join('+'),
+    async reverse(lat, lng) {
+      let best: ReverseGeocodeResult | null = null;
+      for (const geocoder of chain) {
+        try {
+          const result = await geocoder.reverse(lat, lng);
+          if (result) {
+            best = { city: best?.city ?? result.city, country: best?.country ?? result.country };
+          }
+        } catch (err) {
+          console.error(`Geocoding with ${geocoder.name} failed:`, err);
+        }
+        if (best?.city) break;
+      }
+      return best;
+    }
+  };
+}
+
+// Provider chain from the environment:
+//   VITE_GEOCODER_PROVIDER         offline (default) | nominatim | mock
+//   VITE_GEOCODER_NETWORK_FALLBACK "true" to fall back to Nominatim after offline
+//   VITE_NOMINATIM_URL             Nominatim base URL, e.g. a local stub server
+function providersFromEnv(): GeocodingProvider[] {
+  const env = import.meta.env;
+  const nominatim = () => createNominatimProvider(env.VITE_NOMINATIM_URL || undefined);
+
+  switch (env.VITE_GEOCODER_PROVIDER) {
+    case 'mock':
+      return [createMockProvider()];
+    case 'nominatim':
+      return [nominatim()];
+    default: {
+      const offline = createOfflineProvider({ minPopulation: MIN_CITY_POPULATION });
+      return env.VITE_GEOCODER_NETWORK_FALLBACK === 'true' ? [offline, nominatim()] : [offline];
+    }
+  }
+}
+
+export const reverseGeocoder = createReverseGeocoder(providersFromEnv());
@@ -0,0 +1,18 @@
+import { GeocodingProvider, ReverseGeocodeResult } from "./types";
+
+// Deterministic provider for tests and demos: returns the entry whose
+// coordinates are closest (within `toleranceDeg`), or `fallback` otherwise.
+export function createMockProvider(
+  places: Array<{ lat: number; lng: number } & ReverseGeocodeResult> = [],
+  { toleranceDeg = 0.5, fallback = null }: { toleranceDeg?: number; fallback?: ReverseGeocodeResult | null } = {}
+): GeocodingProvider {
+  return {
+    name: 'mock',
+    minIntervalMs: 0,
+    cacheable: false,
+    async reverse(lat, lng) {
+      const match = places.find(p => Math.abs(p.lat - lat) <= toleranceDeg && Math.abs(p.lng - lng) <= toleranceDeg);
+      return match ? { city: match.city, country: match.country } : fallback;
+    }
+  };
+}
@@ -0,0 +1,51 @@
+import { GeocodingProvider, GeocodingRequestError } from "./types";
+
+const NOMINATIM_URL = 'https://nominatim.openstreetmap.org';
+
+// Nominatim usage policy: at most one request per second
+const NOMINATIM_MIN_INTERVAL_MS = 1000;
+
+// Live lookup against OpenStreetMap Nominatim. Sends coordinates to a third party,
+// so it is only used as an opt-in fallback when the offline gazetteer has no answer.
+// Point `baseUrl` at a local stub server to exercise it in tests.
+export function createNominatimProvider(baseUrl: string = NOMINATIM_URL): GeocodingProvider {
+  return {
+    name: 'nominatim',
+    minIntervalMs: NOMINATIM_MIN_INTERVAL_MS,
+    cacheable: true,
+    async reverse(lat, lng) {
+      let response: Response;
+      try {
+        // Higher zoom for better city detection
+        response = await fetch(
+          `${baseUrl}/reverse?format=json&lat=${lat}&lon=${lng}&zoom=14&addressdetails=1&accept-language=en`,
+          {
+            headers: {
+              'User-Agent': 'TravelRecapApp/1.0'
+            }
+          }
+        );
+      } catch (err) {
+        throw new GeocodingRequestError(`Nominatim request failed: ${err}`, true);
+      }
+      if (!response.ok) {
+        const retryable = response.status === 429 || response.status >= 500;
+        throw new GeocodingRequestError(`Nominatim responded with ${response.status}`, retryable, response.status);
+      }
+      const data = await response.json();
+
+      // Extract city from various possible fields
+      const city = data.address?.city ||
+                   data.address?.town ||
+                   data.address?.village ||
+                   data.address?.locality ||
+                   data.address?.municipality ||
+                   data.address?.suburb ||
+                   data.address?.district;
+      const country = data.address?.country;
+
+      if (!city && !country) return null;
+      return { city: city || undefined, country: country || undefined };
+    }
+  };
+}
@@ -0,0 +1,58 @@
+import { CITIES, CityEntry } from "./cities";
+import { GeocodingProvider } from "./types";
+import { findCountryAt } from "@/lib/geo/countries";
+import { haversineKm } from "@/lib/geo/distance";
+
+export interface OfflineProviderOptions {
+  // Cities below this population are ignored
+  minPopulation?: number;
+  // Points near a coastline can fall just outside the simplified polygons;
+  // within this distance we trust the nearest city's country instead
+  coastalFallbackKm?: number;
+}
+
+// How far from a city centre a photo can be and still count as "in" it.
+// Bigger cities sprawl further: ~12km for a small town, ~40km for a megacity.
+const cityRadiusKm = (population: number) => Math.min(45, 12 + 7 * Math.sqrt(population / 1_000_000));
+
+function findNearestCity(cities: CityEntry[], lat: number, lng: number) {
+  let nearest: { city: CityEntry; distanceKm: number } | null = null;
+  for (const city of cities) {
+    const distanceKm = haversineKm(lat, lng, city[2], city[3]);
+    if (!nearest || distanceKm < nearest.distanceKm) {
+      nearest = { city, distanceKm };
+    }
+  }
+  return nearest;
+}
+
+export function createOfflineProvider({
+  minPopulation = 0,
+  coastalFallbackKm = 30
+}: OfflineProviderOptions = {}): GeocodingProvider {
+  const cities = CITIES.filter(c => c[4] >= minPopulation);
+
+  return {
+    name: 'offline',
+    minIntervalMs: 0,
+    // Lookups are cheap and the gazetteer may improve between releases
+    cacheable: false,
+    async reverse(lat, lng) {
+      const country = await findCountryAt(lat, lng);
+
+      // Prefer cities in the containing country so border towns resolve correctly
+      const candidates = country ? cities.filter(c => c[1] === country) : cities;
+      const nearest = findNearestCity(candidates.length > 0 ? candidates : cities, lat, lng);
+
+      const city = nearest && nearest.distanceKm <= cityRadiusKm(nearest.city[4]) ? nearest.city : null;
+
+      if (country) {
+        return { city: city?.[0], country };
+      }
+      if (nearest && nearest.distanceKm <= coastalFallbackKm) {
+        return { city: city?.[0], country: nearest.city[1] };
+      }
+      return null;
+    }
+  };
+}
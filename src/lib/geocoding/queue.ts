@@ -0,0 +1,49 @@
+import { GeocodingRequestError } from "./types";
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Serialises calls so consecutive requests start at least `minIntervalMs` apart.
+export function createRequestQueue(minIntervalMs: number) {
+  let tail: Promise<unknown> = Promise.resolve();
+  let lastStart = 0;
+
+  return function enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = async () => {
+      const wait = lastStart + minIntervalMs - Date.now();
+      if (wait > 0) await sleep(wait);
+      lastStart = Date.now();
+      return task();
+    };
+    const result = tail.then(run, run);
+    // Keep the chain alive regardless of individual failures
+    tail = result.catch(() => undefined);
+    return result;
+  };
+}
+
+export interface RetryOptions {
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+// Retries transient failures with exponential backoff and jitter. Only
+// errors a provider flags as retryable (network failures, 429 and 5xx) are
+// retried; anything else, e.g. HTTP 400, a parse error or an abort, is
+// rethrown immediately.
+export async function withRetry<T>(
+  task: () => Promise<T>,
+  { retries = 3, baseDelayMs = 1000, maxDelayMs = 15000 }: RetryOptions = {}
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (err) {
+      const retryable = err instanceof GeocodingRequestError && err.retryable;
+      if (!retryable || attempt >= retries) throw err;
+
+      const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      await sleep(delay / 2 + Math.random() * (delay / 2));
+    }
+  }
+}
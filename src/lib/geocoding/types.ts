@@ -0,0 +1,29 @@
+export interface ReverseGeocodeResult {
+  city?: string;
+  country?: string;
+}
+
+// Resolves coordinates to a human-readable place.
+// Implementations return null when they have nothing to suggest.
+export interface ReverseGeocoder {
+  name: string;
+  reverse(lat: number, lng: number): Promise<ReverseGeocodeResult | null>;
+}
+
+// A concrete geocoding backend (offline gazetteer, Nominatim, mock...).
+// The service layer adds caching, rate limiting and retries on top.
+export interface GeocodingProvider extends ReverseGeocoder {
+  // Minimum gap between two requests to this provider, 0 for local providers
+  minIntervalMs: number;
+  // Whether results are worth persisting in the IndexedDB cache
+  cacheable: boolean;
+}
+
+// Thrown by providers on failed requests; `retryable` marks transient failures
+// (rate limiting, server errors, network drops) that are worth retrying.
+export class GeocodingRequestError extends Error {
+  constructor(message: string, public readonly retryable: boolean, public readonly status?: number) {
+    super(message);
+    this.name = 'GeocodingRequestError';
+  }
+}
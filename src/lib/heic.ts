@@ -0,0 +1,21 @@
+// iPhones shoot HEIC, which only Safari can display. Those photos are decoded
+// to JPEG in the browser so previews, stamps and slide exports work everywhere.
+const HEIC_TYPES = ['image/heic', 'image/heif', 'image/heic-sequence', 'image/heif-sequence'];
+const HEIC_EXTENSION = /\.(heic|heif)$/i;
+
+const JPEG_QUALITY = 0.9;
+
+// Some browsers report HEIC files with an empty type, so check the name too
+export const isHeicFile = (file: File) =>
+  HEIC_TYPES.includes(file.type.toLowerCase()) || HEIC_EXTENSION.test(file.name);
+
+// The decoder is libheif compiled to WASM (~3 MB), so it's only fetched once
+// someone actually uploads a HEIC photo
+export async function convertHeicToJpeg(file: File): Promise<File> {
+  const { heicTo } = await import('heic-to');
+  const blob = await heicTo({ blob: file, type: 'image/jpeg', quality: JPEG_QUALITY });
+  return new File([blob], file.name.replace(HEIC_EXTENSION, '.jpg'), {
+    type: 'image/jpeg',
+    lastModified: file.lastModified
+  });
+}
@@ -0,0 +1,71 @@
+import { HomeBase, TravelImage } from "@/components/travel-recap/types";
+import { CITIES } from "@/lib/geocoding/cities";
+import { haversineKm } from "@/lib/geo/distance";
+import { findGazetteerCity } from "@/lib/geo/places";
+
+// Photos within this distance of home count as taken at home
+export const HOME_RADIUS_KM = 25;
+
+interface PhotoPlace {
+  city: string;
+  country: string;
+  count: number;
+  points: { lat: number; lng: number }[];
+}
+
+const sameCity = (a: { city: string; country: string }, b: { city: string; country: string }) =>
+  a.city.toLowerCase() === b.city.toLowerCase() && a.country.toLowerCase() === b.country.toLowerCase();
+
+// Gazetteer cities matching the query, names starting with it first, then by size
+export function searchHomeCities(query: string, limit = 6): HomeBase[] {
+  const q = query.trim().toLowerCase();
+  if (!q) return [];
+  return CITIES
+    .filter(([name]) => name.toLowerCase().includes(q))
+    .sort((a, b) =>
+      Number(b[0].toLowerCase().startsWith(q)) - Number(a[0].toLowerCase().startsWith(q)) || b[4] - a[4]
+    )
+    .slice(0, limit)
+    .map(([city, country, lat, lng]) => ({ city, country, coordinates: { lat, lng }, source: 'search' }));
+}
+
+// The place with the most photos, on the assumption that people photograph
+// their own city more than anywhere they visit
+export function inferHomeBase(images: TravelImage[]): HomeBase | null {
+  const places = new Map<string, PhotoPlace>();
+  images.forEach(img => {
+    const city = img.geoTag?.suggestedCity ?? (img.location?.type === 'city' ? img.location.name : undefined);
+    const country = img.geoTag?.suggestedCountry ?? img.location?.country;
+    if (!city || !country) return;
+    const key = `${city.toLowerCase()}:${country.toLowerCase()}`;
+    const place = places.get(key) ?? { city, country, count: 0, points: [] };
+    place.count++;
+    if (img.geoTag) place.points.push(img.geoTag);
+    places.set(key, place);
+  });
+
+  const best = [...places.values()].reduce<PhotoPlace | null>(
+    (top, place) => !top || place.count > top.count ? place : top,
+    null
+  );
+  if (!best) return null;
+
+  const coordinates = findGazetteerCity(best.city, best.country) ?? (best.points.length > 0 ? {
+    lat: best.points.reduce((sum, p) => sum + p.lat, 0) / best.points.length,
+    lng: best.points.reduce((sum, p) => sum + p.lng, 0) / best.points.length
+  } : null);
+  return coordinates ? { city: best.city, country: best.country, coordinates, source: 'photos' } : null;
+}
+
+// GPS decides when the photo has it; otherwise fall back to how it was tagged
+export function isAtHome(image: TravelImage, home: HomeBase | undefined): boolean {
+  if (!home) return false;
+  if (image.geoTag) {
+    return haversineKm(image.geoTag.lat, image.geoTag.lng, home.coordinates.lat, home.coordinates.lng) <= HOME_RADIUS_KM;
+  }
+  return image.location?.type === 'city' && sameCity({ city: image.location.name, country: image.location.country }, home);
+}
+
+export function isHomeCity(location: { type: 'country' | 'city'; name: string; country: string }, home: HomeBase | undefined): boolean {
+  return !!home && location.type === 'city' && sameCity({ city: location.name, country: location.country }, home);
+}
@@ -0,0 +1,127 @@
+import type { ImageRenditions, TravelImage } from "@/components/travel-recap/types";
+
+// Downscaled copies of every upload, so nothing on screen decodes a 12MP
+// original (dozens of those are what crash mobile Safari):
+//   thumb   grids, the intro collage and stamp cards
+//   slide   full-screen slides; this is TravelImage.preview
+//   export  offscreen captures, made one at a time from the original and dropped after
+export type MediaSize = 'thumb' | 'slide' | 'export';
+
+// Long edge in pixels
+export const MEDIA_SIZES: Record<MediaSize, number> = {
+  thumb: 480,
+  slide: 1600,
+  export: 2560
+};
+
+const JPEG_QUALITY = 0.85;
+
+// OffscreenCanvas where there is one (including workers), a DOM canvas otherwise
+async function encodeAt(bitmap: ImageBitmap, size: MediaSize): Promise<Blob> {
+  const scale = Math.min(1, MEDIA_SIZES[size] / Math.max(bitmap.width, bitmap.height));
+  const width = Math.round(bitmap.width * scale);
+  const height = Math.round(bitmap.height * scale);
+
+  if (typeof OffscreenCanvas !== 'undefined') {
+    const canvas = new OffscreenCanvas(width, height);
+    canvas.getContext('2d')!.drawImage(bitmap, 0, 0, width, height);
+    return canvas.convertToBlob({ type: 'image/jpeg', quality: JPEG_QUALITY });
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  canvas.getContext('2d')!.drawImage(bitmap, 0, 0, width, height);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('JPEG encoding failed')), 'image/jpeg', JPEG_QUALITY);
+  });
+}
+
+// One decode for both sizes. Rejects for formats the browser can't decode.
+export async function createRenditions(source: Blob): Promise<ImageRenditions> {
+  const bitmap = await createImageBitmap(source);
+  try {
+    return {
+      slide: await encodeAt(bitmap, 'slide'),
+      thumb: await encodeAt(bitmap, 'thumb'),
+      width: bitmap.width,
+      height: bitmap.height
+    };
+  } finally {
+    bitmap.close();
+  }
+}
+
+export interface MediaCache {
+  // Remembers an image's original so larger sizes can be made on demand
+  register(image: TravelImage): void;
+  // The URL for a preview at the given size, falling back to the preview itself
+  url(preview: string, size: MediaSize): string;
+  // Makes the size if it doesn't exist yet
+  load(preview: string, size: MediaSize): Promise<string>;
+  // Revokes every URL of one size, e.g. once an export is done
+  releaseSize(size: MediaSize): void;
+  // Revokes every URL belonging to an image that's been removed
+  release(image: TravelImage): void;
+}
+
+interface CacheEntry {
+  source?: Blob; // Photos only; clips stay at their poster
+  urls: Partial<Record<MediaSize, string>>;
+}
+
+export function createMediaCache(): MediaCache {
+  const entries = new Map<string, CacheEntry>();
+
+  return {
+    register(image) {
+      const entry = entries.get(image.preview) ?? { urls: {} };
+      entry.source = image.video ? undefined : image.file;
+      entry.urls.slide = image.preview;
+      if (image.thumbnail) entry.urls.thumb = image.thumbnail;
+      entries.set(image.preview, entry);
+    },
+
+    url(preview, size) {
+      return entries.get(preview)?.urls[size] ?? preview;
+    },
+
+    async load(preview, size) {
+      const entry = entries.get(preview);
+      if (!entry) return preview;
+      const existing = entry.urls[size];
+      if (existing) return existing;
+      if (!entry.source) return preview;
+
+      const bitmap = await createImageBitmap(entry.source);
+      try {
+        const url = URL.createObjectURL(await encodeAt(bitmap, size));
+        entry.urls[size] = url;
+        return url;
+      } finally {
+        bitmap.close();
+      }
+    },
+
+    releaseSize(size) {
+      entries.forEach(entry => {
+        const url = entry.urls[size];
+        if (url) URL.revokeObjectURL(url);
+        delete entry.urls[size];
+      });
+    },
+
+    release(image) {
+      const entry = entries.get(image.preview);
+      const urls = new Set([
+        image.preview,
+        image.thumbnail,
+        image.video?.src,
+        ...Object.values(entry?.urls ?? {})
+      ]);
+      urls.forEach(url => url && URL.revokeObjectURL(url));
+      entries.delete(image.preview);
+    }
+  };
+}
+
+export const mediaCache = createMediaCache();
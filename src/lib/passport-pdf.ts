@@ -0,0 +1,203 @@
+import { jsPDF } from "jspdf";
+import { TravelDestination, TravelRecapData } from "@/components/travel-recap/types";
+import { formatVisitRange, groupVisitsByQuarter, QuarterKey } from "@/lib/trips";
+import { RecapPeriodText } from "@/lib/recap-period";
+import { formatHandle } from "@/lib/social";
+
+// Passport booklet page, portrait (ICAO TD3 passports are 125 x 88 mm)
+const PAGE_WIDTH = 88;
+const PAGE_HEIGHT = 125;
+const MARGIN = 7;
+
+const COLUMNS = 2;
+const ROWS = 3;
+const STAMPS_PER_PAGE = COLUMNS * ROWS;
+const GAP = 4;
+const HEADER_HEIGHT = 14;
+
+const THUMBNAIL_PX = 240;
+
+const INK_COLORS = ['#FF5B04', '#2563EB', '#075056'];
+
+const QUARTER_MONTHS: Record<QuarterKey, string> = {
+  Q1: 'January - March',
+  Q2: 'April - June',
+  Q3: 'July - September',
+  Q4: 'October - December'
+};
+
+// Centre-cropped square JPEG of a photo, small enough to keep the PDF light
+function loadThumbnail(src: string): Promise<string | null> {
+  return new Promise(resolve => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = THUMBNAIL_PX;
+      canvas.height = THUMBNAIL_PX;
+      const side = Math.min(img.naturalWidth, img.naturalHeight);
+      canvas.getContext('2d')!.drawImage(
+        img,
+        (img.naturalWidth - side) / 2,
+        (img.naturalHeight - side) / 2,
+        side,
+        side,
+        0,
+        0,
+        THUMBNAIL_PX,
+        THUMBNAIL_PX
+      );
+      resolve(canvas.toDataURL('image/jpeg', 0.85));
+    };
+    img.onerror = () => resolve(null);
+    img.src = src;
+  });
+}
+
+function drawCover(doc: jsPDF, data: TravelRecapData, periodText: RecapPeriodText) {
+  const centerX = PAGE_WIDTH / 2;
+
+  doc.setFillColor('#075056');
+  doc.rect(0, 0, PAGE_WIDTH, PAGE_HEIGHT, 'F');
+
+  doc.setTextColor('#F4D47C');
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(16);
+  doc.text('STAMPED RECAP', centerX, 24, { align: 'center' });
+
+  // Globe emblem
+  doc.setDrawColor('#F4D47C');
+  doc.setLineWidth(0.6);
+  doc.circle(centerX, 55, 14);
+  doc.ellipse(centerX, 55, 6, 14);
+  doc.line(centerX - 14, 55, centerX + 14, 55);
+  doc.line(centerX, 41, centerX, 69);
+  doc.ellipse(centerX, 48, 12, 1.5);
+  doc.ellipse(centerX, 62, 12, 1.5);
+
+  doc.setFontSize(12);
+  doc.text('PASSPORT', centerX, 84, { align: 'center' });
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  doc.text(formatHandle(data.profile), centerX, 100, { align: 'center' });
+  doc.setFontSize(9);
+  doc.text(periodText.label.toUpperCase(), centerX, 107, { align: 'center' });
+}
+
+function drawPageBackground(doc: jsPDF, title: string, subtitle: string, pageNumber: number) {
+  doc.setFillColor('#FDF6E3');
+  doc.rect(0, 0, PAGE_WIDTH, PAGE_HEIGHT, 'F');
+
+  // Faint security-paper lines
+  doc.setDrawColor('#EFE3C4');
+  doc.setLineWidth(0.2);
+  for (let y = 4; y < PAGE_HEIGHT; y += 4) {
+    doc.line(0, y, PAGE_WIDTH, y + 2);
+  }
+
+  doc.setTextColor('#233038');
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(11);
+  doc.text(title, MARGIN, MARGIN + 4);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(7);
+  doc.setTextColor('#075056');
+  doc.text(subtitle, MARGIN, MARGIN + 8.5);
+  doc.text(String(pageNumber), PAGE_WIDTH / 2, PAGE_HEIGHT - 3, { align: 'center' });
+}
+
+function drawStamp(doc: jsPDF, visit: TravelDestination, thumbnail: string | null, x: number, y: number, width: number, height: number, ink: string) {
+  doc.setDrawColor(ink);
+  doc.setLineWidth(0.5);
+  doc.setLineDashPattern([1.2, 0.8], 0);
+  doc.roundedRect(x, y, width, height, 2, 2);
+  doc.setLineDashPattern([], 0);
+
+  const pad = 2;
+  const photoSize = Math.min(width - pad * 2, height - 14);
+  const photoX = x + (width - photoSize) / 2;
+  if (thumbnail) {
+    doc.addImage(thumbnail, 'JPEG', photoX, y + pad, photoSize, photoSize);
+  } else {
+    doc.setFillColor('#D3DBDD');
+    doc.rect(photoX, y + pad, photoSize, photoSize, 'F');
+  }
+
+  const textY = y + pad + photoSize + 4;
+  const maxWidth = width - pad * 2;
+  doc.setTextColor(ink);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(7);
+  const name = doc.splitTextToSize(visit.name.toUpperCase(), maxWidth)[0];
+  doc.text(name, x + width / 2, textY, { align: 'center' });
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(5.5);
+  const visitInfo = visit.visits?.[0];
+  const details = [
+    visit.type === 'city' ? visit.country : null,
+    visitInfo ? formatVisitRange(visitInfo) : null
+  ].filter(Boolean).join(' | ');
+  if (details) {
+    doc.text(doc.splitTextToSize(details, maxWidth)[0], x + width / 2, textY + 3.5, { align: 'center' });
+  }
+}
+
+// Builds a printable passport booklet: a cover, then the stamps for each
+// quarter on their own pages, six to a page.
+export async function createPassportPdf(
+  data: TravelRecapData,
+  periodText: RecapPeriodText,
+  onProgress?: (current: number, total: number) => void
+): Promise<Blob> {
+  const doc = new jsPDF({ unit: 'mm', format: [PAGE_WIDTH, PAGE_HEIGHT], orientation: 'portrait' });
+  doc.setProperties({ title: `Stamped Recap ${periodText.label} - ${formatHandle(data.profile)}` });
+  drawCover(doc, data, periodText);
+
+  const { quarters, undated } = groupVisitsByQuarter(data.destinations, data.period);
+  // Undated visits get their own pages after the last quarter
+  const sections = [
+    ...quarters.map(q => ({ title: q.label, subtitle: QUARTER_MONTHS[q.quarter], visits: q.visits })),
+    { title: 'Undated', subtitle: 'No date on the photos', visits: undated }
+  ];
+  const visitCount = sections.reduce((sum, section) => sum + section.visits.length, 0);
+  const stampWidth = (PAGE_WIDTH - MARGIN * 2 - GAP * (COLUMNS - 1)) / COLUMNS;
+  const stampHeight = (PAGE_HEIGHT - MARGIN * 2 - HEADER_HEIGHT - GAP * (ROWS - 1)) / ROWS;
+
+  let pageNumber = 1;
+  let stampIndex = 0;
+
+  if (visitCount === 0) {
+    doc.addPage();
+    drawPageBackground(doc, 'Visas', 'No stamps yet', pageNumber);
+  }
+
+  for (const { title: sectionTitle, subtitle, visits } of sections) {
+    for (let start = 0; start < visits.length; start += STAMPS_PER_PAGE) {
+      doc.addPage();
+      const title = start === 0 ? sectionTitle : `${sectionTitle} (continued)`;
+      drawPageBackground(doc, title, subtitle, pageNumber++);
+
+      const pageVisits = visits.slice(start, start + STAMPS_PER_PAGE);
+      for (let i = 0; i < pageVisits.length; i++) {
+        const visit = pageVisits[i];
+        onProgress?.(++stampIndex, visitCount);
+        const thumbnail = visit.images[0] ? await loadThumbnail(visit.images[0]) : null;
+        const column = i % COLUMNS;
+        const row = Math.floor(i / COLUMNS);
+        drawStamp(
+          doc,
+          visit,
+          thumbnail,
+          MARGIN + column * (stampWidth + GAP),
+          MARGIN + HEADER_HEIGHT + row * (stampHeight + GAP),
+          stampWidth,
+          stampHeight,
+          INK_COLORS[(visit.visitOrder - 1 + INK_COLORS.length) % INK_COLORS.length]
+        );
+      }
+    }
+  }
+
+  return doc.output('blob');
+}
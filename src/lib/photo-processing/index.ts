@@ -0,0 +1,95 @@
+import { readPhoto } from "./read-photo";
+import { PhotoReading, PhotoTaskResponse } from "./types";
+
+export type { PhotoReading } from "./types";
+
+export interface ReadPhotosOptions {
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number) => void;
+}
+
+// Leave a core for the UI; more than four workers just contend for disk
+const getPoolSize = () => Math.max(1, Math.min(4, (navigator.hardwareConcurrency || 2) - 1));
+
+const createWorker = () => new Worker(new URL('./worker.ts', import.meta.url), { type: 'module' });
+
+// Parses EXIF and makes thumbnails off the main thread, a few files at a
+// time. Results are in input order, null for files that couldn't be read.
+export async function readPhotos(files: File[], { signal, onProgress }: ReadPhotosOptions = {}): Promise<(PhotoReading | null)[]> {
+  signal?.throwIfAborted();
+  const results: (PhotoReading | null)[] = files.map(() => null);
+  if (files.length === 0) return results;
+
+  // Without workers, fall back to reading on the main thread
+  if (typeof Worker === 'undefined') {
+    for (let i = 0; i < files.length; i++) {
+      signal?.throwIfAborted();
+      results[i] = await readPhoto(files[i]).catch(() => null);
+      onProgress?.(i + 1, files.length);
+    }
+    return results;
+  }
+
+  const workers = Array.from({ length: Math.min(getPoolSize(), files.length) }, createWorker);
+  const inFlight = new Map<Worker, number>();
+  let next = 0;
+  let done = 0;
+
+  return new Promise((resolve, reject) => {
+    const finish = () => {
+      workers.forEach(worker => worker.terminate());
+      signal?.removeEventListener('abort', handleAbort);
+    };
+    // Terminating drops whatever the workers were in the middle of
+    const handleAbort = () => {
+      finish();
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', handleAbort, { once: true });
+
+    const complete = (id: number, reading: PhotoReading | null) => {
+      if (signal?.aborted) return;
+      results[id] = reading;
+      onProgress?.(++done, files.length);
+      if (done === files.length) {
+        finish();
+        resolve(results);
+      }
+    };
+
+    const readOnMainThread = async (id: number) => complete(id, await readPhoto(files[id]).catch(() => null));
+
+    const dispatch = (worker: Worker) => {
+      if (next >= files.length) return;
+      const id = next++;
+      inFlight.set(worker, id);
+      worker.postMessage({ id, file: files[id] });
+    };
+
+    workers.forEach(worker => {
+      worker.onmessage = (event: MessageEvent<PhotoTaskResponse>) => {
+        const { id, reading, error } = event.data;
+        if (error) console.error(`Couldn't read ${files[id].name}:`, error);
+        inFlight.delete(worker);
+        complete(id, reading ?? null);
+        dispatch(worker);
+      };
+      // A crashed worker is dropped and its current file read here instead.
+      // Once the whole pool is gone, the remaining files are read here too.
+      worker.onerror = event => {
+        event.preventDefault();
+        console.error('Photo worker failed:', event.message);
+        worker.terminate();
+        workers.splice(workers.indexOf(worker), 1);
+        const id = inFlight.get(worker);
+        inFlight.delete(worker);
+        const current = id !== undefined ? readOnMainThread(id) : Promise.resolve();
+        if (workers.length > 0) return;
+        current.then(async () => {
+          while (next < files.length && !signal?.aborted) await readOnMainThread(next++);
+        });
+      };
+      dispatch(worker);
+    });
+  });
+}
@@ -0,0 +1,33 @@
+import exifr from "exifr";
+import { createRenditions } from "@/lib/media-cache";
+import { computeImageHash } from "@/lib/duplicates";
+import { scorePhoto } from "@/lib/photo-quality";
+import { PhotoReading } from "./types";
+
+export async function readPhoto(file: File): Promise<PhotoReading> {
+  const reading: PhotoReading = {};
+
+  try {
+    const exifData = await exifr.parse(file, { gps: true });
+    const dateVal = exifData?.DateTimeOriginal || exifData?.CreateDate;
+    if (dateVal) {
+      reading.timestamp = dateVal instanceof Date ? dateVal.getTime() : new Date(dateVal).getTime();
+    }
+    if (exifData?.latitude && exifData?.longitude) {
+      reading.gps = { lat: exifData.latitude, lng: exifData.longitude };
+    }
+  } catch (exifError) {
+    console.error(`EXIF extraction failed for ${file.name}:`, exifError);
+  }
+
+  try {
+    reading.renditions = await createRenditions(file);
+    reading.hash = await computeImageHash(reading.renditions.thumb);
+    reading.quality = await scorePhoto(reading.renditions.thumb, reading.renditions);
+  } catch (renditionError) {
+    // HEIC and other formats the browser can't decode get theirs later
+    console.log(`No renditions for ${file.name}:`, renditionError);
+  }
+
+  return reading;
+}
@@ -0,0 +1,21 @@
+import type { ImageRenditions } from "@/components/travel-recap/types";
+
+// What the main thread needs from each photo; the full-size file stays where it is
+export interface PhotoReading {
+  timestamp?: number; // Unix milliseconds from EXIF
+  gps?: { lat: number; lng: number };
+  renditions?: ImageRenditions; // Absent when the browser can't decode the photo
+  hash?: string; // Perceptual hash of the thumb rendition
+  quality?: number; // Best-shot score, see lib/photo-quality
+}
+
+export interface PhotoTask {
+  id: number;
+  file: File;
+}
+
+export interface PhotoTaskResponse {
+  id: number;
+  reading?: PhotoReading;
+  error?: string;
+}
@@ -0,0 +1,13 @@
+import { readPhoto } from "./read-photo";
+import { PhotoTask, PhotoTaskResponse } from "./types";
+
+self.onmessage = async (event: MessageEvent<PhotoTask>) => {
+  const { id, file } = event.data;
+  let response: PhotoTaskResponse;
+  try {
+    response = { id, reading: await readPhoto(file) };
+  } catch (err) {
+    response = { id, error: err instanceof Error ? err.message : String(err) };
+  }
+  self.postMessage(response);
+};
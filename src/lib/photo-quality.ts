@@ -0,0 +1,75 @@
+import { luminance, readPixels } from "@/lib/pixels";
+
+// A rough "best shot" score from 0 to 1, computed locally from the thumb
+// rendition so every photo is judged at the same scale:
+//   sharpness   variance of the Laplacian; blur and camera shake flatten edges
+//   exposure    mean brightness near the middle, with little clipped to black or white
+//   resolution  megapixels of the original, up to a typical phone camera
+const WEIGHTS = { sharpness: 0.5, exposure: 0.3, resolution: 0.2 };
+
+// Laplacian variance of a crisp 480px thumbnail; more doesn't look any sharper
+const SHARP_VARIANCE = 1000;
+const FULL_RESOLUTION = 12_000_000;
+// Luma this close to either end counts as clipped
+const CLIP_MARGIN = 8;
+
+function measureSharpness(grey: Float32Array, width: number, height: number): number {
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const laplacian = 4 * grey[i] - grey[i - 1] - grey[i + 1] - grey[i - width] - grey[i + width];
+      sum += laplacian;
+      sumSquares += laplacian * laplacian;
+      count++;
+    }
+  }
+  if (count === 0) return 0;
+  const variance = sumSquares / count - (sum / count) ** 2;
+  // Log scale, since blur shows up as orders of magnitude
+  return Math.min(1, Math.log1p(variance) / Math.log1p(SHARP_VARIANCE));
+}
+
+function measureExposure(grey: Float32Array): number {
+  let sum = 0;
+  let clipped = 0;
+  grey.forEach(value => {
+    sum += value;
+    if (value < CLIP_MARGIN || value > 255 - CLIP_MARGIN) clipped++;
+  });
+  const balance = 1 - Math.abs(sum / grey.length - 128) / 128;
+  return balance * (1 - Math.min(1, (clipped / grey.length) * 2));
+}
+
+// `original` is the size of the full photo, which the thumb no longer shows
+export async function scorePhoto(thumb: Blob, original: { width: number; height: number }): Promise<number> {
+  const bitmap = await createImageBitmap(thumb);
+  const { width, height } = bitmap;
+  let pixels: Uint8ClampedArray;
+  try {
+    pixels = readPixels(bitmap, width, height);
+  } finally {
+    bitmap.close();
+  }
+
+  const grey = new Float32Array(width * height);
+  for (let i = 0; i < grey.length; i++) grey[i] = luminance(pixels, i * 4);
+
+  const score =
+    WEIGHTS.sharpness * measureSharpness(grey, width, height) +
+    WEIGHTS.exposure * measureExposure(grey) +
+    WEIGHTS.resolution * Math.min(1, (original.width * original.height) / FULL_RESOLUTION);
+  return Math.round(score * 1000) / 1000;
+}
+
+// The highest-scoring item first, as the default cover; the rest keep their
+// order. Unscored items (e.g. clips) only lead when nothing is scored.
+export function withBestFirst<T>(items: T[], getScore: (item: T) => number | undefined): T[] {
+  let bestIndex = 0;
+  items.forEach((item, i) => {
+    if ((getScore(item) ?? -1) > (getScore(items[bestIndex]) ?? -1)) bestIndex = i;
+  });
+  return bestIndex === 0 ? items : [items[bestIndex], ...items.slice(0, bestIndex), ...items.slice(bestIndex + 1)];
+}
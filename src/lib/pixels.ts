@@ -0,0 +1,19 @@
+// RGBA pixels of a bitmap drawn at the given size. OffscreenCanvas so this
+// also runs inside the photo workers, a DOM canvas otherwise.
+export function readPixels(bitmap: ImageBitmap, width: number, height: number): Uint8ClampedArray {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    const context = new OffscreenCanvas(width, height).getContext('2d')!;
+    context.drawImage(bitmap, 0, 0, width, height);
+    return context.getImageData(0, 0, width, height).data;
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d')!;
+  context.drawImage(bitmap, 0, 0, width, height);
+  return context.getImageData(0, 0, width, height).data;
+}
+
+// Rec. 601 luma, 0-255
+export const luminance = (pixels: Uint8ClampedArray, i: number) =>
+  0.299 * pixels[i] + 0.587 * pixels[i + 1] + 0.114 * pixels[i + 2];
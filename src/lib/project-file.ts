@@ -0,0 +1,321 @@
+import { strFromU8, strToU8, unzipSync, Zippable, zipSync } from "fflate";
+import { z } from "zod";
+import { RecapPeriod, TravelDestination, TravelImage, TravelRecapData, UserProfile, Visit } from "@/components/travel-recap/types";
+import { getPeriodYear } from "@/lib/recap-period";
+import { createRenditions, mediaCache } from "@/lib/media-cache";
+
+// A saved recap that can be reopened later or on another device: a ZIP with
+// manifest.json (profile, destinations, per-photo tags) and downscaled photos
+export const PROJECT_FILE_EXTENSION = '.stampedrecap';
+export const PROJECT_FILE_VERSION = 2;
+
+const MANIFEST_NAME = 'manifest.json';
+
+// Long edge of the stored photos; enough for full-screen slides and exports
+const MAX_IMAGE_SIZE = 2048;
+const JPEG_QUALITY = 0.85;
+
+export type ProjectStep = 'tag' | 'curate' | 'story';
+
+// Thrown for files that aren't projects, are damaged or come from a newer version
+export class ProjectFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProjectFileError';
+  }
+}
+
+const coordinatesSchema = z.object({ lat: z.number(), lng: z.number() });
+const placeTypeSchema = z.enum(['country', 'city']);
+
+const manifestSchema = z.object({
+  format: z.literal('stampedrecap'),
+  version: z.literal(PROJECT_FILE_VERSION),
+  exportedAt: z.number(),
+  step: z.enum(['tag', 'curate', 'story']),
+  profile: z.object({
+    username: z.string(),
+    platform: z.enum(['instagram', 'twitter', 'none']),
+    home: z.object({
+      city: z.string(),
+      country: z.string(),
+      coordinates: coordinatesSchema,
+      source: z.enum(['search', 'photos'])
+    }).optional(),
+    detectHome: z.boolean().optional(),
+    visitGapDays: z.number().positive().optional()
+  }),
+  period: z.object({
+    kind: z.enum(['year', 'last-12-months', 'custom']),
+    start: z.number(),
+    end: z.number()
+  }),
+  images: z.array(z.object({
+    id: z.string(),
+    path: z.string(),
+    name: z.string(),
+    type: z.string(),
+    lastModified: z.number(),
+    order: z.number(),
+    timestamp: z.number().optional(),
+    location: z.object({ type: placeTypeSchema, name: z.string(), country: z.string() }).optional(),
+    geoTag: coordinatesSchema.extend({
+      suggestedCity: z.string().optional(),
+      suggestedCountry: z.string().optional()
+    }).optional(),
+    video: z.object({ posterPath: z.string(), durationMs: z.number() }).optional(),
+    hash: z.string().optional(),
+    duplicateOf: z.string().optional(),
+    keepDuplicates: z.boolean().optional(),
+    quality: z.number().optional()
+  })),
+  // Destinations point at photos by id, as in the draft store
+  destinations: z.array(z.object({
+    id: z.string(),
+    type: placeTypeSchema,
+    name: z.string(),
+    country: z.string(),
+    imageIds: z.array(z.string()),
+    hiddenImageIds: z.array(z.string()).optional(),
+    visitOrder: z.number(),
+    earliestTimestamp: z.number().optional(),
+    visits: z.array(z.object({
+      id: z.string(),
+      visitNumber: z.number(),
+      startTimestamp: z.number(),
+      endTimestamp: z.number(),
+      days: z.number(),
+      imageIds: z.array(z.string())
+    })).optional(),
+    coordinates: coordinatesSchema.optional()
+  }))
+});
+
+type ManifestImage = Omit<TravelImage, 'file' | 'preview' | 'thumbnail' | 'renditions' | 'video'> & {
+  path: string;
+  name: string;
+  type: string;
+  lastModified: number;
+  video?: { posterPath: string; durationMs: number };
+};
+type ManifestVisit = Omit<Visit, 'images'> & { imageIds: string[] };
+type ManifestDestination = Omit<TravelDestination, 'images' | 'hiddenImages' | 'visits'> & {
+  imageIds: string[];
+  hiddenImageIds?: string[];
+  visits?: ManifestVisit[];
+};
+
+interface ProjectManifest {
+  format: 'stampedrecap';
+  version: number;
+  exportedAt: number;
+  step: ProjectStep;
+  profile: UserProfile;
+  period: RecapPeriod;
+  images: ManifestImage[];
+  destinations: ManifestDestination[];
+}
+
+// Only enough to tell which migrations a manifest needs
+const headerSchema = z.object({
+  format: z.literal('stampedrecap'),
+  version: z.number().int().positive()
+}).passthrough();
+
+type RawManifest = z.infer<typeof headerSchema>;
+
+// Upgrades a manifest from the keyed version to the next one. Add an entry
+// (and bump PROJECT_FILE_VERSION) whenever the manifest shape changes.
+const MIGRATIONS: Record<number, (manifest: RawManifest) => RawManifest> = {
+  // 2 added the 'curate' step; version 1 files never use it
+  1: manifest => ({ ...manifest, version: 2 })
+};
+
+export interface ProjectExportOptions {
+  signal?: AbortSignal;
+  onProgress?: (current: number, total: number) => void;
+}
+
+export interface ProjectContents {
+  step: ProjectStep;
+  images: TravelImage[];
+  recapData: TravelRecapData;
+}
+
+// Re-encodes as JPEG no larger than MAX_IMAGE_SIZE; formats the browser
+// can't decode are kept as they are
+async function downscaleImage(file: File): Promise<Blob> {
+  try {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, MAX_IMAGE_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return await new Promise((resolve, reject) => {
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('JPEG encoding failed')), 'image/jpeg', JPEG_QUALITY);
+    });
+  } catch (err) {
+    console.error(`Couldn't downscale ${file.name}, storing the original:`, err);
+    return file;
+  }
+}
+
+const EXTENSIONS: Record<string, string> = { 'image/jpeg': 'jpg', 'video/quicktime': 'mov' };
+
+const extensionFor = (type: string) => EXTENSIONS[type] ?? (type.split('/')[1]?.replace(/[^a-z0-9]/g, '') || 'bin');
+
+export async function exportProject(
+  step: ProjectStep,
+  images: TravelImage[],
+  recapData: TravelRecapData,
+  { signal, onProgress }: ProjectExportOptions = {}
+): Promise<Blob> {
+  const entries: Zippable = {};
+  const manifestImages: ProjectManifest['images'] = [];
+
+  for (const [index, img] of images.entries()) {
+    signal?.throwIfAborted();
+    onProgress?.(index + 1, images.length);
+    // Clips are stored as they are, next to their poster frame
+    const blob = img.video ? img.file : await downscaleImage(img.file);
+    const extension = extensionFor(blob.type);
+    const path = `images/${index + 1}.${extension}`;
+    entries[path] = new Uint8Array(await blob.arrayBuffer());
+    const posterPath = img.video ? `images/${index + 1}-poster.jpg` : undefined;
+    if (img.video) {
+      entries[posterPath] = new Uint8Array(await img.video.poster.arrayBuffer());
+    }
+    manifestImages.push({
+      id: img.id,
+      path,
+      name: img.file.name.replace(/\.[^.]+$/, '') + `.${extension}`,
+      type: blob.type,
+      lastModified: img.file.lastModified,
+      order: img.order,
+      timestamp: img.timestamp,
+      location: img.location,
+      geoTag: img.geoTag,
+      video: img.video && { posterPath, durationMs: img.video.durationMs },
+      hash: img.hash,
+      duplicateOf: img.duplicateOf,
+      keepDuplicates: img.keepDuplicates,
+      quality: img.quality
+    });
+  }
+
+  const idByPreview = new Map(images.map(img => [img.preview, img.id]));
+  const toIds = (previews: string[]) => previews.map(p => idByPreview.get(p)).filter((id): id is string => !!id);
+  const manifest: ProjectManifest = {
+    format: 'stampedrecap',
+    version: PROJECT_FILE_VERSION,
+    exportedAt: Date.now(),
+    step,
+    profile: recapData.profile,
+    period: recapData.period,
+    images: manifestImages,
+    destinations: recapData.destinations.map(({ images: previews, hiddenImages, visits, ...dest }) => ({
+      ...dest,
+      imageIds: toIds(previews),
+      hiddenImageIds: hiddenImages && toIds(hiddenImages),
+      visits: visits?.map(({ images: visitPreviews, ...visit }) => ({ ...visit, imageIds: toIds(visitPreviews) }))
+    }))
+  };
+  signal?.throwIfAborted();
+  // Photos are already compressed, so only the manifest is deflated
+  entries[MANIFEST_NAME] = [strToU8(JSON.stringify(manifest)), { level: 6 }];
+  return new Blob([zipSync(entries, { level: 0 })], { type: 'application/zip' });
+}
+
+// Brings an older manifest up to the current version, then validates it
+export function parseManifest(json: unknown): ProjectManifest {
+  const header = headerSchema.safeParse(json);
+  if (!header.success) {
+    throw new ProjectFileError("This file isn't a Stamped recap.");
+  }
+  if (header.data.version > PROJECT_FILE_VERSION) {
+    throw new ProjectFileError('This recap was saved by a newer version of the app. Reload the page and try again.');
+  }
+
+  let manifest = header.data;
+  while (manifest.version < PROJECT_FILE_VERSION) {
+    const migrate = MIGRATIONS[manifest.version];
+    if (!migrate) {
+      throw new ProjectFileError(`Recaps saved with version ${manifest.version} can't be opened any more.`);
+    }
+    manifest = migrate(manifest);
+  }
+
+  const parsed = manifestSchema.safeParse(manifest);
+  if (!parsed.success) {
+    console.error('Invalid project manifest:', parsed.error.issues);
+    throw new ProjectFileError('This recap file is damaged and could not be opened.');
+  }
+  // The schema mirrors ProjectManifest; without strict mode zod infers every key as optional
+  return parsed.data as ProjectManifest;
+}
+
+export async function importProject(file: File): Promise<ProjectContents> {
+  let files: Record<string, Uint8Array>;
+  let json: unknown;
+  try {
+    files = unzipSync(new Uint8Array(await file.arrayBuffer()));
+    json = JSON.parse(strFromU8(files[MANIFEST_NAME]));
+  } catch (err) {
+    console.error('Failed to read project file:', err);
+    throw new ProjectFileError("This file isn't a Stamped recap.");
+  }
+  const manifest = parseManifest(json);
+
+  const images: TravelImage[] = [];
+  for (const { path, name, type, lastModified, video, ...img } of manifest.images) {
+    const bytes = files[path];
+    const posterBytes = video && files[video.posterPath];
+    if (!bytes || (video && !posterBytes)) {
+      images.forEach(loaded => mediaCache.release(loaded));
+      throw new ProjectFileError('This recap file is missing some photos and could not be opened.');
+    }
+    const imageFile = new File([bytes], name, { type, lastModified });
+    if (video) {
+      const poster = new Blob([posterBytes], { type: 'image/jpeg' });
+      images.push({
+        ...img,
+        file: imageFile,
+        preview: URL.createObjectURL(poster),
+        video: { poster, durationMs: video.durationMs, src: URL.createObjectURL(imageFile) }
+      });
+      continue;
+    }
+    // Renditions aren't saved in the file; one photo at a time keeps memory flat
+    const renditions = await createRenditions(imageFile).catch(() => undefined);
+    images.push({
+      ...img,
+      file: imageFile,
+      preview: URL.createObjectURL(renditions?.slide ?? imageFile),
+      thumbnail: renditions && URL.createObjectURL(renditions.thumb),
+      renditions
+    });
+  }
+
+  const previewById = new Map(images.map(img => [img.id, img.preview]));
+  const toPreviews = (ids: string[]) => ids.map(id => previewById.get(id)).filter((p): p is string => !!p);
+  const destinations: TravelDestination[] = manifest.destinations.map(({ imageIds, hiddenImageIds, visits, ...dest }) => ({
+    ...dest,
+    images: toPreviews(imageIds),
+    hiddenImages: hiddenImageIds && toPreviews(hiddenImageIds),
+    visits: visits?.map(({ imageIds: visitImageIds, ...visit }) => ({ ...visit, images: toPreviews(visitImageIds) }))
+  }));
+
+  return {
+    // Without destinations there's nothing to curate or show yet
+    step: destinations.length > 0 ? manifest.step : 'tag',
+    images,
+    recapData: {
+      profile: manifest.profile,
+      destinations,
+      year: getPeriodYear(manifest.period),
+      period: manifest.period
+    }
+  };
+}
@@ -0,0 +1,152 @@
+import { deflateSync, inflateSync, strFromU8, strToU8 } from "fflate";
+import { z } from "zod";
+import { TravelDestination, TravelRecapData } from "@/components/travel-recap/types";
+import { buildJourney, computeRecapStats, RecapStats } from "@/lib/recap-stats";
+import { getRouteDistanceKm } from "@/lib/geo/route";
+import { getPeriodYear } from "@/lib/recap-period";
+import { getVisitDays } from "@/lib/trips";
+import type { LatLng } from "@/lib/geo/places";
+
+// Everything a photo-free story needs, packed into the URL fragment so
+// nothing is uploaded. Arrays instead of objects keep the JSON small:
+//   destination: [type, name, country, lat, lng, visits as [start, end] minutes]
+//   stats: [km, days away, furthest from home as [destination index, km]]
+// The km is the route without home legs, since that's the route the viewer
+// draws. Opening a link recomputes it, so older links that measured the
+// home legs show the drawn route's distance too.
+const MINUTE_MS = 60_000;
+const PLATFORMS = ['none', 'instagram', 'twitter'] as const;
+const PERIOD_KINDS = ['year', 'last-12-months', 'custom'] as const;
+
+const linkSchema = z.object({
+  v: z.literal(1),
+  u: z.string().max(64),
+  pl: z.number().int().min(0).max(PLATFORMS.length - 1),
+  pr: z.tuple([z.number().int().min(0).max(PERIOD_KINDS.length - 1), z.number(), z.number()]),
+  d: z.array(z.tuple([
+    z.enum(['c', 'n']),
+    z.string().max(100),
+    z.string().max(100),
+    z.number().nullable(),
+    z.number().nullable(),
+    z.array(z.tuple([z.number(), z.number()]))
+  ])).max(500),
+  s: z.tuple([z.number(), z.number(), z.tuple([z.number().int(), z.number()]).nullable()])
+});
+
+type RecapLinkPayload = z.infer<typeof linkSchema>;
+
+export interface DecodedRecapLink {
+  data: TravelRecapData;
+  stats: RecapStats;
+}
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(Array.from(bytes, b => String.fromCharCode(b)).join(''))
+    .replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (text: string) =>
+  Uint8Array.from(atob(text.replace(/-/g, '+').replace(/_/g, '/')), c => c.charCodeAt(0));
+
+// ~100m: plenty for a map pin, and no more precise than it needs to be
+const roundCoordinate = (value: number) => Math.round(value * 1000) / 1000;
+
+// `coordinates` are the story's resolved positions, so the link shows the
+// same map even for destinations without photo GPS
+export function encodeRecapLink(data: TravelRecapData, stats: RecapStats, coordinates?: Map<string, LatLng>): string {
+  // Floored so an end-of-day bound stays on its own day
+  const toMinutes = (t: number) => Math.floor(t / MINUTE_MS);
+  const furthestIndex = stats.furthestFromHome
+    ? data.destinations.findIndex(d => d.id === stats.furthestFromHome!.destination.id)
+    : -1;
+
+  const payload: RecapLinkPayload = {
+    v: 1,
+    u: data.profile.username,
+    pl: PLATFORMS.indexOf(data.profile.platform),
+    pr: [PERIOD_KINDS.indexOf(data.period.kind), toMinutes(data.period.start), toMinutes(data.period.end)],
+    d: data.destinations.map(dest => {
+      const position = coordinates?.get(dest.id) ?? dest.coordinates;
+      const visits = dest.visits?.length
+        ? dest.visits.map(v => [toMinutes(v.startTimestamp), toMinutes(v.endTimestamp)] as [number, number])
+        : dest.earliestTimestamp ? [[toMinutes(dest.earliestTimestamp), toMinutes(dest.earliestTimestamp)] as [number, number]] : [];
+      return [
+        dest.type === 'city' ? 'c' : 'n',
+        dest.name,
+        dest.country,
+        position ? roundCoordinate(position.lat) : null,
+        position ? roundCoordinate(position.lng) : null,
+        visits
+      ];
+    }),
+    s: [
+      Math.round(getRouteDistanceKm(buildJourney(data, { coordinates }))),
+      stats.daysAway,
+      furthestIndex >= 0 ? [furthestIndex, Math.round(stats.furthestFromHome!.distanceKm)] : null
+    ]
+  };
+
+  return toBase64Url(deflateSync(strToU8(JSON.stringify(payload)), { level: 9 }));
+}
+
+// Null for anything that isn't a link we made: truncated, edited or from a
+// newer version of the app
+export function decodeRecapLink(fragment: string): DecodedRecapLink | null {
+  let payload: RecapLinkPayload;
+  try {
+    const parsed = linkSchema.safeParse(JSON.parse(strFromU8(inflateSync(fromBase64Url(fragment)))));
+    if (!parsed.success) return null;
+    payload = parsed.data;
+  } catch {
+    return null;
+  }
+
+  const destinations: TravelDestination[] = payload.d
+    .map(([type, name, country, lat, lng, visits], index) => {
+      const id = `link-${index + 1}`;
+      return {
+        id,
+        type: type === 'c' ? 'city' as const : 'country' as const,
+        name,
+        country,
+        images: [],
+        visitOrder: index + 1,
+        earliestTimestamp: visits[0] ? visits[0][0] * MINUTE_MS : undefined,
+        visits: visits.length > 0 ? visits.map(([start, end], i) => ({
+          id: `${id}:visit-${i + 1}`,
+          visitNumber: i + 1,
+          startTimestamp: start * MINUTE_MS,
+          endTimestamp: end * MINUTE_MS,
+          days: getVisitDays(start * MINUTE_MS, end * MINUTE_MS),
+          images: []
+        })) : undefined,
+        coordinates: lat !== null && lng !== null ? { lat, lng } : undefined
+      };
+    });
+
+  const period = {
+    kind: PERIOD_KINDS[payload.pr[0]],
+    start: payload.pr[1] * MINUTE_MS,
+    end: payload.pr[2] * MINUTE_MS
+  };
+  const data: TravelRecapData = {
+    profile: { username: payload.u, platform: PLATFORMS[payload.pl] },
+    destinations,
+    year: getPeriodYear(period),
+    period
+  };
+
+  // Home never goes in the link, so the figures measured from it come
+  // precomputed. The distance is measured here from the route the viewer draws.
+  const [, daysAway, furthest] = payload.s;
+  const furthestDestination = furthest ? destinations[furthest[0]] : undefined;
+  const stats: RecapStats = {
+    ...computeRecapStats(data),
+    daysAway,
+    furthestFromHome: furthestDestination?.coordinates
+      ? { destination: furthestDestination, coordinates: furthestDestination.coordinates, distanceKm: furthest![1] }
+      : null
+  };
+
+  return { data, stats };
+}
@@ -0,0 +1,86 @@
+import { endOfDay, format, startOfDay, subYears } from "date-fns";
+import { RecapPeriod } from "@/components/travel-recap/types";
+
+export interface RecapPeriodText {
+  label: string;   // "2025", "past year", "Mar–Aug 2025"
+  title: string;   // Sentence-start form of the label
+  inLabel: string; // "in 2025", "this past year"
+  fileSlug: string;
+}
+
+// Wrapped season runs into the new year, so until July default to last year
+export function getDefaultRecapYear(now = new Date()): number {
+  return now.getMonth() < 6 ? now.getFullYear() - 1 : now.getFullYear();
+}
+
+export function getYearPeriod(year: number): RecapPeriod {
+  return {
+    kind: 'year',
+    start: new Date(year, 0, 1).getTime(),
+    end: endOfDay(new Date(year, 11, 31)).getTime()
+  };
+}
+
+export function getLast12MonthsPeriod(now = new Date()): RecapPeriod {
+  return {
+    kind: 'last-12-months',
+    start: startOfDay(subYears(now, 1)).getTime(),
+    end: endOfDay(now).getTime()
+  };
+}
+
+export function getCustomPeriod(from: Date, to: Date): RecapPeriod {
+  return {
+    kind: 'custom',
+    start: startOfDay(from).getTime(),
+    end: endOfDay(to).getTime()
+  };
+}
+
+// The year a period is filed under: its own year, or the year it ends in
+export function getPeriodYear(period: RecapPeriod): number {
+  return new Date(period.end).getFullYear();
+}
+
+// Photos without a timestamp can't be placed, so they're never excluded
+export function isInPeriod(timestamp: number | undefined, period: RecapPeriod): boolean {
+  return timestamp === undefined || (timestamp >= period.start && timestamp <= period.end);
+}
+
+function formatRange(start: Date, end: Date): string {
+  if (start.getFullYear() !== end.getFullYear()) {
+    return `${format(start, 'LLL yyyy')}–${format(end, 'LLL yyyy')}`;
+  }
+  if (start.getMonth() === end.getMonth()) {
+    return format(end, 'LLL yyyy');
+  }
+  return `${format(start, 'LLL')}–${format(end, 'LLL yyyy')}`;
+}
+
+export function getPeriodText(period: RecapPeriod): RecapPeriodText {
+  const start = new Date(period.start);
+  const end = new Date(period.end);
+
+  switch (period.kind) {
+    case 'year': {
+      const year = String(start.getFullYear());
+      return { label: year, title: year, inLabel: `in ${year}`, fileSlug: year };
+    }
+    case 'last-12-months':
+      return {
+        label: 'past year',
+        title: 'The past year',
+        inLabel: 'this past year',
+        fileSlug: `${format(start, 'yyyy-MM')}-to-${format(end, 'yyyy-MM')}`
+      };
+    case 'custom': {
+      const range = formatRange(start, end);
+      return {
+        label: range,
+        title: range,
+        inLabel: `in ${range}`,
+        fileSlug: `${format(start, 'yyyy-MM-dd')}-to-${format(end, 'yyyy-MM-dd')}`
+      };
+    }
+  }
+}
@@ -0,0 +1,157 @@
+import { COUNTRIES, TravelDestination, TravelRecapData } from "@/components/travel-recap/types";
+import { haversineKm } from "@/lib/geo/distance";
+import { getRouteDistanceKm } from "@/lib/geo/route";
+import { Continent, getContinent } from "@/lib/geo/continents";
+import { findGazetteerCity, LatLng } from "@/lib/geo/places";
+import { expandVisits, getVisitDays } from "@/lib/trips";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Visits this close together count as one trip away from home
+const TRIP_GAP_MS = 1.5 * DAY_MS;
+
+export interface PlaceStat {
+  destination: TravelDestination;
+  coordinates: LatLng;
+}
+
+export interface TripStat {
+  stops: TravelDestination[]; // Per-visit projections, in order
+  startTimestamp: number;
+  endTimestamp: number;
+  days: number;
+}
+
+export interface RecapStats {
+  totalDistanceKm: number;
+  countriesVisited: number;
+  worldCountriesPercent: number;
+  continents: Continent[];
+  daysAway: number;
+  longestTrip: TripStat | null;
+  furthestFromHome: (PlaceStat & { distanceKm: number }) | null;
+  northernmost: PlaceStat | null;
+  southernmost: PlaceStat | null;
+}
+
+export interface RecapStatsOptions {
+  // Resolved positions by destination id; photo GPS and the gazetteer are used otherwise
+  coordinates?: Map<string, LatLng>;
+  home?: LatLng;
+}
+
+const dayKey = (date: Date) => `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+
+// Back-to-back visits (e.g. Rome then Florence the next day) form one trip
+function groupIntoTrips(visits: TravelDestination[]): TripStat[] {
+  const trips: TripStat[] = [];
+  visits.forEach(stop => {
+    const start = stop.visits?.[0]?.startTimestamp ?? stop.earliestTimestamp;
+    if (start === undefined) return;
+    const end = stop.visits?.[0]?.endTimestamp ?? start;
+    const current = trips[trips.length - 1];
+    if (current && start - current.endTimestamp <= TRIP_GAP_MS) {
+      current.stops.push(stop);
+      current.endTimestamp = Math.max(current.endTimestamp, end);
+    } else {
+      trips.push({ stops: [stop], startTimestamp: start, endTimestamp: end, days: 0 });
+    }
+  });
+  trips.forEach(trip => {
+    trip.days = getVisitDays(trip.startTimestamp, trip.endTimestamp);
+  });
+  return trips;
+}
+
+const positionOf = (dest: TravelDestination, coordinates?: Map<string, LatLng>): LatLng | null =>
+  coordinates?.get(dest.id)
+  ?? dest.coordinates
+  ?? (dest.type === 'city' ? findGazetteerCity(dest.name, dest.country) : null);
+
+// Visit projections carry the visit id, so map them back to their destination's position
+function getVisitPositions(data: TravelRecapData, coordinates?: Map<string, LatLng>) {
+  const parentOf = new Map<string, TravelDestination>();
+  data.destinations.forEach(dest => {
+    parentOf.set(dest.id, dest);
+    dest.visits?.forEach(visit => parentOf.set(visit.id, dest));
+  });
+  return (stop: TravelDestination) => positionOf(parentOf.get(stop.id) ?? stop, coordinates);
+}
+
+// Every point travelled through, in order: with a home base each trip is a
+// round trip from home, otherwise it's one journey through every visit. The
+// route slide draws this and `totalDistanceKm` measures it. Back-to-back
+// points at the same spot are merged so there are no zero-length legs.
+export function buildJourney(data: TravelRecapData, { coordinates, home }: RecapStatsOptions = {}): LatLng[] {
+  const visits = expandVisits(data.destinations);
+  const visitPosition = getVisitPositions(data, coordinates);
+  const journeys = home ? groupIntoTrips(visits).map(trip => trip.stops) : [visits];
+
+  const route: LatLng[] = [];
+  journeys.forEach(stops => {
+    const points = stops.map(visitPosition).filter((p): p is LatLng => !!p);
+    const legs = home && points.length > 0 ? [home, ...points, home] : points;
+    legs.forEach(point => {
+      const last = route[route.length - 1];
+      if (!last || last.lat !== point.lat || last.lng !== point.lng) route.push(point);
+    });
+  });
+  return route;
+}
+
+// Headline numbers for the stats slides. Pure: positions that need async
+// lookups (country centroids) come in through `coordinates`.
+export function computeRecapStats(data: TravelRecapData, { coordinates, home }: RecapStatsOptions = {}): RecapStats {
+  const visits = expandVisits(data.destinations);
+  const trips = groupIntoTrips(visits);
+  const totalDistanceKm = getRouteDistanceKm(buildJourney(data, { coordinates, home }));
+
+  const countries = new Set(data.destinations.map(d => d.country));
+  const continents = [...new Set(
+    [...countries].map(getContinent).filter((c): c is Continent => !!c)
+  )];
+
+  // Distinct calendar days with at least one visit underway
+  const days = new Set<string>();
+  visits.forEach(stop => {
+    const start = stop.visits?.[0]?.startTimestamp ?? stop.earliestTimestamp;
+    if (start === undefined) return;
+    const end = stop.visits?.[0]?.endTimestamp ?? start;
+    const day = new Date(start);
+    for (let i = 0; i < getVisitDays(start, end); i++) {
+      days.add(dayKey(day));
+      day.setDate(day.getDate() + 1);
+    }
+  });
+
+  const places = data.destinations
+    .map(destination => ({ destination, coordinates: positionOf(destination, coordinates) }))
+    .filter((p): p is PlaceStat => !!p.coordinates);
+
+  const northernmost = places.reduce<PlaceStat | null>((best, p) => !best || p.coordinates.lat > best.coordinates.lat ? p : best, null);
+  const southernmost = places.reduce<PlaceStat | null>((best, p) => !best || p.coordinates.lat < best.coordinates.lat ? p : best, null);
+
+  let furthestFromHome: RecapStats['furthestFromHome'] = null;
+  if (home) {
+    places.forEach(p => {
+      const distanceKm = haversineKm(home.lat, home.lng, p.coordinates.lat, p.coordinates.lng);
+      if (!furthestFromHome || distanceKm > furthestFromHome.distanceKm) {
+        furthestFromHome = { ...p, distanceKm };
+      }
+    });
+  }
+
+  const longestTrip = trips.reduce<TripStat | null>((best, trip) => !best || trip.days > best.days ? trip : best, null);
+
+  return {
+    totalDistanceKm: Math.round(totalDistanceKm),
+    countriesVisited: countries.size,
+    worldCountriesPercent: Math.round((countries.size / COUNTRIES.length) * 1000) / 10,
+    continents,
+    daysAway: days.size,
+    longestTrip,
+    furthestFromHome,
+    northernmost,
+    southernmost
+  };
+}
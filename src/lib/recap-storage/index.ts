@@ -0,0 +1,103 @@
+import { createClient } from "@supabase/supabase-js";
+import { TravelRecapData } from "@/components/travel-recap/types";
+import type { Database } from "@/types/supabase";
+import { getVisitImages } from "@/lib/trips";
+import { createLocalRecapStorage } from "./local";
+import { createSupabaseRecapStorage } from "./supabase";
+import { RecapSnapshot, RecapStorageAdapter, StoredRecapImage } from "./types";
+
+export type { RecapSnapshot, RecapStorageAdapter, StoredRecapImage } from "./types";
+export { createLocalRecapStorage } from "./local";
+export { createSupabaseRecapStorage } from "./supabase";
+
+const ID_LENGTH = 12;
+const ID_ALPHABET = 'abcdefghijkmnpqrstuvwxyz23456789';
+
+// Short, unguessable and URL-safe, e.g. "k3v9xq2mhd7p"
+function createRecapId(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(ID_LENGTH));
+  return Array.from(bytes, b => ID_ALPHABET[b % ID_ALPHABET.length]).join('');
+}
+
+// Applies `fn` to every image reference, in destinations and their visits
+function mapRecapImages(data: TravelRecapData, fn: (image: string) => string): TravelRecapData {
+  return {
+    ...data,
+    destinations: data.destinations.map(dest => ({
+      ...dest,
+      images: dest.images.map(fn),
+      visits: dest.visits?.map(visit => ({ ...visit, images: visit.images.map(fn) }))
+    }))
+  };
+}
+
+const extensionFor = (type: string) => type === 'image/jpeg' ? 'jpg' : type.split('/')[1] || 'bin';
+
+export interface PublishOptions {
+  storage?: RecapStorageAdapter;
+  signal?: AbortSignal;
+  onProgress?: (current: number, total: number) => void;
+}
+
+// Stores the recap with copies of its photos and returns the id to share.
+// The home base stays private: viewers see distances between trips only.
+export async function publishRecap(data: TravelRecapData, { storage = recapStorage, signal, onProgress }: PublishOptions = {}): Promise<string> {
+  // Photos hidden while curating aren't uploaded
+  const destinations = data.destinations.map(({ hiddenImages: _hiddenImages, ...dest }) => ({
+    ...dest,
+    visits: dest.visits?.map(visit => ({ ...visit, images: getVisitImages(dest, visit) }))
+  }));
+  const keyByUrl = new Map<string, string>();
+  const images: StoredRecapImage[] = [];
+  const urls = [...new Set(destinations.flatMap(d => [...d.images, ...(d.visits ?? []).flatMap(v => v.images)]))];
+
+  for (let i = 0; i < urls.length; i++) {
+    signal?.throwIfAborted();
+    onProgress?.(i + 1, urls.length);
+    const blob = await (await fetch(urls[i])).blob();
+    const key = `${i + 1}.${extensionFor(blob.type)}`;
+    keyByUrl.set(urls[i], key);
+    images.push({ key, blob });
+  }
+
+  const { home: _home, detectHome: _detectHome, visitGapDays: _visitGapDays, ...profile } = data.profile;
+  const snapshot: RecapSnapshot = {
+    version: 1,
+    data: mapRecapImages({ ...data, profile, destinations }, url => keyByUrl.get(url) ?? url),
+    publishedAt: Date.now()
+  };
+
+  signal?.throwIfAborted();
+  const id = createRecapId();
+  await storage.save(id, snapshot, images);
+  return id;
+}
+
+// Null when the recap doesn't exist (or was removed)
+export async function loadPublishedRecap(id: string, storage: RecapStorageAdapter = recapStorage): Promise<TravelRecapData | null> {
+  const snapshot = await storage.loadSnapshot(id);
+  if (!snapshot) return null;
+
+  const urlByKey = new Map<string, string>();
+  const keys = new Set(snapshot.data.destinations.flatMap(d => [...d.images, ...(d.visits ?? []).flatMap(v => v.images)]));
+  for (const key of keys) {
+    urlByKey.set(key, await storage.getImageUrl(id, key));
+  }
+  return mapRecapImages(snapshot.data, key => urlByKey.get(key) ?? key);
+}
+
+export const getPublishedRecapUrl = (id: string) => `${window.location.origin}/r/${id}`;
+
+// Storage from the environment:
+//   VITE_RECAP_STORAGE        local (default) | supabase
+//   VITE_SUPABASE_URL         Supabase project URL
+//   VITE_SUPABASE_ANON_KEY    Supabase anon key
+function storageFromEnv(): RecapStorageAdapter {
+  const env = import.meta.env;
+  if (env.VITE_RECAP_STORAGE === 'supabase' && env.VITE_SUPABASE_URL && env.VITE_SUPABASE_ANON_KEY) {
+    return createSupabaseRecapStorage(createClient<Database>(env.VITE_SUPABASE_URL, env.VITE_SUPABASE_ANON_KEY));
+  }
+  return createLocalRecapStorage();
+}
+
+export const recapStorage = storageFromEnv();
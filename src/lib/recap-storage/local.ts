@@ -0,0 +1,48 @@
+import { getDB, isIndexedDBAvailable } from "@/lib/db";
+import { RecapSnapshot, RecapStorageAdapter, StoredRecapImage } from "./types";
+
+export interface StoredPublishedRecap {
+  id: string;
+  snapshot: RecapSnapshot;
+  images: StoredRecapImage[];
+}
+
+// Recaps only this browser can open. Handy for developing the viewer
+// without a backend; falls back to memory where IndexedDB is unavailable.
+export function createLocalRecapStorage(): RecapStorageAdapter {
+  const memory = new Map<string, StoredPublishedRecap>();
+  const urls = new Map<string, string>();
+
+  const read = async (id: string): Promise<StoredPublishedRecap | undefined> => {
+    if (!isIndexedDBAvailable()) return memory.get(id);
+    const db = await getDB();
+    return db.get('published-recaps', id);
+  };
+
+  return {
+    name: 'local',
+    async save(id, snapshot, images) {
+      const record = { id, snapshot, images };
+      if (!isIndexedDBAvailable()) {
+        memory.set(id, record);
+        return;
+      }
+      const db = await getDB();
+      await db.put('published-recaps', record);
+    },
+    async loadSnapshot(id) {
+      return (await read(id))?.snapshot ?? null;
+    },
+    async getImageUrl(id, key) {
+      const cacheKey = `${id}/${key}`;
+      const cached = urls.get(cacheKey);
+      if (cached) return cached;
+
+      const image = (await read(id))?.images.find(img => img.key === key);
+      if (!image) throw new Error(`Image ${key} missing from recap ${id}`);
+      const url = URL.createObjectURL(image.blob);
+      urls.set(cacheKey, url);
+      return url;
+    }
+  };
+}
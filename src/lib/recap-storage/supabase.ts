@@ -0,0 +1,39 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import type { Database, Json } from "@/types/supabase";
+import { RecapSnapshot, RecapStorageAdapter } from "./types";
+
+const TABLE = 'recaps';
+const BUCKET = 'recap-images';
+
+// Snapshots go in the `recaps` table and images in the public `recap-images`
+// bucket under the recap's id. Schema: supabase/migrations.
+export function createSupabaseRecapStorage(client: SupabaseClient<Database>): RecapStorageAdapter {
+  return {
+    name: 'supabase',
+    async save(id, snapshot, images) {
+      // Images first, so a recap row never points at missing files
+      for (const image of images) {
+        const { error } = await client.storage
+          .from(BUCKET)
+          .upload(`${id}/${image.key}`, image.blob, { contentType: image.blob.type, upsert: false });
+        if (error) throw new Error(`Uploading ${image.key} failed: ${error.message}`);
+      }
+
+      const { error } = await client.from(TABLE).insert({
+        id,
+        snapshot: snapshot as unknown as Json,
+        published_at: new Date(snapshot.publishedAt).toISOString()
+      });
+      if (error) throw new Error(`Saving recap failed: ${error.message}`);
+    },
+    // The table isn't readable directly, so recaps can't be listed
+    async loadSnapshot(id) {
+      const { data, error } = await client.rpc('get_recap', { recap_id: id });
+      if (error) throw new Error(`Loading recap failed: ${error.message}`);
+      return data ? (data as unknown as RecapSnapshot) : null;
+    },
+    async getImageUrl(id, key) {
+      return client.storage.from(BUCKET).getPublicUrl(`${id}/${key}`).data.publicUrl;
+    }
+  };
+}
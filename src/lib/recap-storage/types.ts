@@ -0,0 +1,25 @@
+import { TravelRecapData } from "@/components/travel-recap/types";
+
+// A published recap as stored. Image URLs in `data` are replaced by keys
+// into the images saved alongside it, since preview URLs die with the page.
+export interface RecapSnapshot {
+  version: 1;
+  data: TravelRecapData;
+  publishedAt: number;
+}
+
+export interface StoredRecapImage {
+  key: string;
+  blob: Blob;
+}
+
+// Where published recaps live (IndexedDB for development, Supabase...).
+// The service layer handles snapshots and image keys on top.
+export interface RecapStorageAdapter {
+  name: string;
+  save(id: string, snapshot: RecapSnapshot, images: StoredRecapImage[]): Promise<void>;
+  // Null when there's no recap with this id
+  loadSnapshot(id: string): Promise<RecapSnapshot | null>;
+  // A URL the browser can display for one of the recap's images
+  getImageUrl(id: string, key: string): Promise<string>;
+}
@@ -0,0 +1,62 @@
+import { UserProfile } from "@/components/travel-recap/types";
+import { EXPORT_PRESETS, ExportPreset } from "@/lib/story-export";
+
+export type SocialPlatform = UserProfile['platform'];
+
+interface PlatformRules {
+  label: string;
+  // Shown under the handle input when the handle doesn't fit
+  hint: string;
+  pattern: RegExp;
+  presets: ExportPreset['id'][];
+}
+
+// Handle rules as each platform enforces them for new accounts
+const PLATFORMS: Record<SocialPlatform, PlatformRules> = {
+  instagram: {
+    label: 'Instagram',
+    hint: 'Up to 30 letters, numbers, periods and underscores, with no leading, trailing or double periods',
+    pattern: /^(?!\.)(?!.*\.\.)(?!.*\.$)[A-Za-z0-9._]{1,30}$/,
+    presets: ['story']
+  },
+  twitter: {
+    label: 'X',
+    hint: 'Up to 15 letters, numbers and underscores',
+    pattern: /^[A-Za-z0-9_]{1,15}$/,
+    presets: ['landscape', 'square']
+  },
+  none: {
+    label: 'Just a name',
+    hint: 'Up to 30 characters',
+    pattern: /^.{1,30}$/,
+    presets: ['story', 'landscape', 'square']
+  }
+};
+
+export const SOCIAL_PLATFORMS = Object.keys(PLATFORMS) as SocialPlatform[];
+
+export const getPlatformLabel = (platform: SocialPlatform) => PLATFORMS[platform].label;
+
+// Accepts "@name", "name" or a pasted profile link and returns the bare handle
+export function normalizeHandle(platform: SocialPlatform, input: string): string {
+  const trimmed = input.trim();
+  if (platform === 'none') return trimmed;
+  const fromUrl = trimmed.match(/(?:instagram\.com|twitter\.com|x\.com)\/@?([^/?#\s]+)/i);
+  return (fromUrl ? fromUrl[1] : trimmed).replace(/^@+/, '');
+}
+
+// Null when the handle is fine, otherwise a message for the user
+export function validateHandle(platform: SocialPlatform, handle: string): string | null {
+  if (!handle) return null;
+  return PLATFORMS[platform].pattern.test(handle) ? null : PLATFORMS[platform].hint;
+}
+
+// "@handle" for social accounts, the plain name otherwise
+export function formatHandle(profile: UserProfile): string {
+  return profile.platform === 'none' ? profile.username : `@${profile.username}`;
+}
+
+// Export sizes that suit where the recap will be posted, preferred first
+export function getExportPresets(platform: SocialPlatform): ExportPreset[] {
+  return PLATFORMS[platform].presets.map(id => EXPORT_PRESETS[id]);
+}
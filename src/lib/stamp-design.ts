@@ -0,0 +1,45 @@
+import { format } from "date-fns";
+import { TravelDestination } from "@/components/travel-recap/types";
+
+export type StampShape = 'circle' | 'rectangle' | 'triangle' | 'octagon';
+
+export interface StampDesign {
+  shape: StampShape;
+  ink: string;
+  rotation: number; // Degrees, slightly off-square like a hand-pressed stamp
+  seed: number;     // Drives the worn-ink texture
+  entryDate: string | null;
+}
+
+const SHAPES: StampShape[] = ['circle', 'rectangle', 'triangle', 'octagon'];
+
+// Passport-ink tones that still read on the dark card background
+const INKS = ['#FF5B04', '#2563EB', '#F4D47C', '#E0475B', '#3FA796', '#9B7BFF'];
+
+const MAX_ROTATION = 14;
+
+// FNV-1a: small, stable across sessions, good enough to spread names out
+export function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Every stamp from the same country shares a shape and ink, like real border
+// stamps; rotation and wear vary per place so a page doesn't look cloned.
+export function getStampDesign(destination: TravelDestination): StampDesign {
+  const countryHash = hashString(destination.country.toLowerCase());
+  const placeHash = hashString(`${destination.name}|${destination.country}`.toLowerCase());
+  const entryTimestamp = destination.visits?.[0]?.startTimestamp ?? destination.earliestTimestamp;
+
+  return {
+    shape: SHAPES[countryHash % SHAPES.length],
+    ink: INKS[(countryHash >>> 8) % INKS.length],
+    rotation: ((placeHash % 1000) / 1000) * MAX_ROTATION * 2 - MAX_ROTATION,
+    seed: placeHash % 997,
+    entryDate: entryTimestamp ? format(entryTimestamp, 'dd MMM yyyy').toUpperCase() : null
+  };
+}
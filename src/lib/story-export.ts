@@ -0,0 +1,265 @@
+import { ReactNode } from "react";
+import { createRoot } from "react-dom/client";
+import { flushSync } from "react-dom";
+import { MotionGlobalConfig } from "framer-motion";
+import html2canvas from "html2canvas";
+import { zipSync } from "fflate";
+
+// Story format: slides are laid out at phone size and captured at 3x
+export const STORY_WIDTH = 1080;
+export const STORY_HEIGHT = 1920;
+const LAYOUT_WIDTH = 360;
+const LAYOUT_HEIGHT = 640;
+
+export interface ExportPreset {
+  id: 'story' | 'landscape' | 'square';
+  label: string;
+  width: number;
+  height: number;
+  // Posts on platforms that support image descriptions get alt text alongside
+  altText: boolean;
+}
+
+export const EXPORT_PRESETS: Record<ExportPreset['id'], ExportPreset> = {
+  story: { id: 'story', label: '9:16', width: STORY_WIDTH, height: STORY_HEIGHT, altText: false },
+  landscape: { id: 'landscape', label: '16:9', width: 1600, height: 900, altText: true },
+  square: { id: 'square', label: '1:1', width: 1080, height: 1080, altText: true }
+};
+
+export interface PresetCaption {
+  title: string;
+  handle: string;
+}
+
+export interface StoryFrame {
+  canvas: HTMLCanvasElement;
+  durationMs: number;
+}
+
+export interface VideoFormat {
+  mimeType: string;
+  extension: 'mp4' | 'webm';
+}
+
+const VIDEO_FORMATS: VideoFormat[] = [
+  { mimeType: 'video/mp4;codecs=avc1.42E01E', extension: 'mp4' },
+  { mimeType: 'video/mp4', extension: 'mp4' },
+  { mimeType: 'video/webm;codecs=vp9', extension: 'webm' },
+  { mimeType: 'video/webm;codecs=vp8', extension: 'webm' },
+  { mimeType: 'video/webm', extension: 'webm' }
+];
+
+// MP4 posts everywhere, so prefer it when the browser can record it
+export function pickVideoFormat(): VideoFormat | null {
+  if (typeof MediaRecorder === 'undefined') return null;
+  return VIDEO_FORMATS.find(f => MediaRecorder.isTypeSupported(f.mimeType)) ?? null;
+}
+
+const nextFrame = () => new Promise<void>(resolve => requestAnimationFrame(() => resolve()));
+
+const abortError = () => new DOMException('Export cancelled', 'AbortError');
+
+// Mounts a node in a detached phone-sized container and captures it at story
+// resolution. Motion animations are skipped so the capture shows final state.
+export async function renderOffscreen(node: ReactNode): Promise<HTMLCanvasElement> {
+  const container = document.createElement('div');
+  // The transform makes the container the containing block for fixed children
+  Object.assign(container.style, {
+    position: 'fixed',
+    top: '0',
+    left: `-${LAYOUT_WIDTH * 4}px`,
+    width: `${LAYOUT_WIDTH}px`,
+    height: `${LAYOUT_HEIGHT}px`,
+    overflow: 'hidden',
+    transform: 'translateZ(0)',
+    pointerEvents: 'none'
+  });
+  document.body.appendChild(container);
+
+  const root = createRoot(container);
+  const skipAnimations = MotionGlobalConfig.skipAnimations;
+  MotionGlobalConfig.skipAnimations = true;
+
+  try {
+    flushSync(() => root.render(node));
+
+    // Wait for every photo to decode so nothing renders blank
+    const images = Array.from(container.querySelectorAll('img'));
+    await Promise.all(images.map(img => img.decode().catch(() => undefined)));
+    await nextFrame();
+    await nextFrame();
+
+    return await html2canvas(container, {
+      backgroundColor: '#0B0101',
+      scale: STORY_WIDTH / LAYOUT_WIDTH,
+      useCORS: true,
+      allowTaint: true,
+      // Bring the clone on-screen, otherwise html2canvas crops it away
+      onclone: (_doc, clone) => {
+        clone.style.left = '0';
+      }
+    });
+  } finally {
+    MotionGlobalConfig.skipAnimations = skipAnimations;
+    root.unmount();
+    container.remove();
+  }
+}
+
+const CROSSFADE_MS = 400;
+const FPS = 30;
+
+interface RecordOptions {
+  format: VideoFormat;
+  signal?: AbortSignal;
+  onProgress?: (elapsedMs: number, totalMs: number) => void;
+}
+
+// Plays the frames onto a canvas in real time, crossfading between them, and
+// records the canvas stream. Recording takes as long as the video itself.
+export function recordSlideshow(frames: StoryFrame[], { format, signal, onProgress }: RecordOptions): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+
+    // Frames share one size: the story itself or a preset it was fitted to
+    const width = frames[0]?.canvas.width ?? STORY_WIDTH;
+    const height = frames[0]?.canvas.height ?? STORY_HEIGHT;
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d')!;
+
+    const totalMs = frames.reduce((sum, f) => sum + f.durationMs, 0);
+    const starts = frames.map((_, i) => frames.slice(0, i).reduce((sum, f) => sum + f.durationMs, 0));
+
+    const recorder = new MediaRecorder(canvas.captureStream(FPS), {
+      mimeType: format.mimeType,
+      videoBitsPerSecond: 8_000_000
+    });
+    const chunks: Blob[] = [];
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let cancelled = false;
+
+    recorder.ondataavailable = e => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+    recorder.onstop = () => {
+      clearTimeout(timer);
+      if (cancelled) reject(abortError());
+      else resolve(new Blob(chunks, { type: format.mimeType.split(';')[0] }));
+    };
+    recorder.onerror = () => {
+      clearTimeout(timer);
+      reject(new Error('Video recording failed'));
+    };
+
+    signal?.addEventListener('abort', () => {
+      cancelled = true;
+      if (recorder.state !== 'inactive') recorder.stop();
+    });
+
+    const drawAt = (elapsed: number) => {
+      let index = starts.findIndex((start, i) => elapsed < start + frames[i].durationMs);
+      if (index === -1) index = frames.length - 1;
+
+      const intoFrame = elapsed - starts[index];
+      ctx.globalAlpha = 1;
+      if (index > 0 && intoFrame < CROSSFADE_MS) {
+        ctx.drawImage(frames[index - 1].canvas, 0, 0, width, height);
+        ctx.globalAlpha = intoFrame / CROSSFADE_MS;
+      }
+      ctx.drawImage(frames[index].canvas, 0, 0, width, height);
+    };
+
+    // setTimeout rather than requestAnimationFrame, which stalls in background tabs
+    const startedAt = performance.now();
+    const tick = () => {
+      const elapsed = performance.now() - startedAt;
+      if (elapsed >= totalMs) {
+        drawAt(totalMs - 1);
+        onProgress?.(totalMs, totalMs);
+        recorder.stop();
+        return;
+      }
+      drawAt(elapsed);
+      onProgress?.(elapsed, totalMs);
+      timer = setTimeout(tick, 1000 / FPS);
+    };
+
+    drawAt(0);
+    recorder.start(1000);
+    tick();
+  });
+}
+
+// Places a story capture on a wider canvas: a blurred copy fills the
+// background, and landscape posts get the title and handle beside the slide
+export function fitToPreset(story: HTMLCanvasElement, preset: ExportPreset, caption: PresetCaption): HTMLCanvasElement {
+  if (preset.width === story.width && preset.height === story.height) return story;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = preset.width;
+  canvas.height = preset.height;
+  const ctx = canvas.getContext('2d')!;
+
+  ctx.fillStyle = '#0B0101';
+  ctx.fillRect(0, 0, preset.width, preset.height);
+  const coverScale = Math.max(preset.width / story.width, preset.height / story.height);
+  ctx.filter = 'blur(40px) brightness(0.4)';
+  ctx.drawImage(
+    story,
+    (preset.width - story.width * coverScale) / 2,
+    (preset.height - story.height * coverScale) / 2,
+    story.width * coverScale,
+    story.height * coverScale
+  );
+  ctx.filter = 'none';
+
+  const margin = Math.round(preset.height * 0.06);
+  const slideHeight = preset.height - margin * 2;
+  const slideWidth = slideHeight * (story.width / story.height);
+  const isLandscape = preset.width > preset.height;
+  const slideX = isLandscape ? preset.width * 0.3 - slideWidth / 2 : (preset.width - slideWidth) / 2;
+  ctx.drawImage(story, slideX, margin, slideWidth, slideHeight);
+
+  if (isLandscape) {
+    const textX = slideX + slideWidth + margin * 1.5;
+    const maxWidth = preset.width - textX - margin;
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = '#FDF6E3';
+    ctx.font = `bold ${Math.round(preset.height * 0.08)}px system-ui, sans-serif`;
+    ctx.fillText(caption.title, textX, preset.height * 0.45, maxWidth);
+    ctx.fillStyle = '#FF5B04';
+    ctx.font = `600 ${Math.round(preset.height * 0.045)}px system-ui, sans-serif`;
+    ctx.fillText(caption.handle, textX, preset.height * 0.56, maxWidth);
+  }
+  return canvas;
+}
+
+export function canvasToPng(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('PNG encoding failed')), 'image/png');
+  });
+}
+
+// PNGs are already compressed, so files are stored rather than deflated
+export async function createZip(files: { name: string; blob: Blob }[]): Promise<Blob> {
+  const entries: Record<string, Uint8Array> = {};
+  for (const file of files) {
+    entries[file.name] = new Uint8Array(await file.blob.arrayBuffer());
+  }
+  return new Blob([zipSync(entries, { level: 0 })], { type: 'application/zip' });
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = filename;
+  link.href = url;
+  link.click();
+  // Give the download a moment to start before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 10_000);
+}
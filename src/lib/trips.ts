@@ -0,0 +1,167 @@
+import { RecapPeriod, TravelDestination, Visit } from "@/components/travel-recap/types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Photos of the same place more than this many days apart count as separate visits
+export const DEFAULT_VISIT_GAP_DAYS = 3;
+
+// Calendar days covered by a stay, counting both the first and last day
+export function getVisitDays(startTimestamp: number, endTimestamp: number): number {
+  const start = new Date(startTimestamp);
+  const end = new Date(endTimestamp);
+  const startDay = Date.UTC(start.getFullYear(), start.getMonth(), start.getDate());
+  const endDay = Date.UTC(end.getFullYear(), end.getMonth(), end.getDate());
+  return Math.max(1, Math.round((endDay - startDay) / DAY_MS) + 1);
+}
+
+// Splits a destination's photos into visits wherever consecutive photos are
+// more than `gapDays` apart.
+export function splitIntoVisits(
+  destinationId: string,
+  photos: Array<{ preview: string; timestamp: number }>,
+  gapDays: number = DEFAULT_VISIT_GAP_DAYS
+): Visit[] {
+  const sorted = [...photos].sort((a, b) => a.timestamp - b.timestamp);
+  const groups: Array<typeof sorted> = [];
+
+  sorted.forEach((photo, i) => {
+    if (i === 0 || photo.timestamp - sorted[i - 1].timestamp > gapDays * DAY_MS) {
+      groups.push([]);
+    }
+    groups[groups.length - 1].push(photo);
+  });
+
+  return groups.map((group, i) => {
+    const startTimestamp = group[0].timestamp;
+    const endTimestamp = group[group.length - 1].timestamp;
+    return {
+      id: `${destinationId}:visit-${i + 1}`,
+      visitNumber: i + 1,
+      startTimestamp,
+      endTimestamp,
+      days: getVisitDays(startTimestamp, endTimestamp),
+      images: group.map(p => p.preview)
+    };
+  });
+}
+
+// A visit's shown photos in the destination's curated order. Visits keep every
+// photo they were split with, so hiding one and restoring it later is lossless.
+export function getVisitImages(destination: TravelDestination, visit: Visit): string[] {
+  const position = new Map(destination.images.map((preview, i) => [preview, i]));
+  return visit.images
+    .filter(preview => position.has(preview))
+    .sort((a, b) => position.get(a)! - position.get(b)!);
+}
+
+// Re-tagging regenerates destinations with fresh ids, so the order and hidden
+// photos picked during curation are carried over by preview. Photos new to a
+// destination go after the ones already ordered, and a visit whose photos
+// were all hidden gets them back so it still has something to show.
+export function carryOverCuration(destinations: TravelDestination[], previous: TravelDestination[]): TravelDestination[] {
+  const position = new Map<string, number>();
+  const hidden = new Set<string>();
+  previous.forEach(dest => {
+    dest.images.forEach(preview => position.set(preview, position.size));
+    dest.hiddenImages?.forEach(preview => hidden.add(preview));
+  });
+  if (position.size === 0 && hidden.size === 0) return destinations;
+
+  return destinations.map(dest => {
+    const groups = dest.visits && dest.visits.length > 0 ? dest.visits.map(v => v.images) : [dest.images];
+    const restored = new Set(groups.filter(group => group.every(p => hidden.has(p))).flat());
+    const isHidden = (preview: string) => hidden.has(preview) && !restored.has(preview);
+
+    const shown = dest.images.filter(p => !isHidden(p));
+    const ordered = shown.filter(p => position.has(p)).sort((a, b) => position.get(a)! - position.get(b)!);
+    const added = shown.filter(p => !position.has(p));
+    const hiddenImages = dest.images.filter(isHidden);
+    return { ...dest, images: [...ordered, ...added], hiddenImages: hiddenImages.length > 0 ? hiddenImages : undefined };
+  });
+}
+
+// One entry per visit, in chronological order. Each entry is the destination
+// narrowed to that visit (its photos, start date and a single-item `visits`),
+// so story slides can treat repeat trips as separate stops.
+export function expandVisits(destinations: TravelDestination[]): TravelDestination[] {
+  return destinations
+    .flatMap(dest => {
+      if (!dest.visits || dest.visits.length === 0) return [dest];
+      return dest.visits.map(visit => ({
+        ...dest,
+        id: visit.id,
+        images: getVisitImages(dest, visit),
+        earliestTimestamp: visit.startTimestamp,
+        visits: [visit]
+      }));
+    })
+    .sort((a, b) => (a.earliestTimestamp ?? Infinity) - (b.earliestTimestamp ?? Infinity));
+}
+
+export type QuarterKey = 'Q1' | 'Q2' | 'Q3' | 'Q4';
+
+export interface QuarterGroup {
+  key: string; // e.g. "2025-Q4", unique across years
+  quarter: QuarterKey;
+  year: number;
+  label: string; // "Q4", or "Q4 2025" when the recap spans more than one year
+  visits: TravelDestination[];
+}
+
+export interface QuarterlyVisits {
+  quarters: QuarterGroup[]; // Every quarter the period touches, oldest first
+  undated: TravelDestination[]; // No timestamp, so no quarter to put them in
+}
+
+// Quarters counted from year 0, so consecutive quarters are consecutive numbers
+const quarterIndex = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return date.getFullYear() * 4 + Math.floor(date.getMonth() / 3);
+};
+
+// Visits grouped by the calendar quarter (and year) they started in. A
+// rolling or custom period can cross New Year, so Q1 of one year is kept
+// apart from Q1 of the next.
+export function groupVisitsByQuarter(destinations: TravelDestination[], period: RecapPeriod): QuarterlyVisits {
+  const groups = new Map<number, TravelDestination[]>();
+  for (let i = quarterIndex(period.start); i <= quarterIndex(period.end); i++) groups.set(i, []);
+
+  const undated: TravelDestination[] = [];
+  expandVisits(destinations).forEach(dest => {
+    if (dest.earliestTimestamp === undefined) {
+      undated.push(dest);
+      return;
+    }
+    const index = quarterIndex(dest.earliestTimestamp);
+    groups.set(index, [...(groups.get(index) ?? []), dest]);
+  });
+
+  const indexes = [...groups.keys()].sort((a, b) => a - b);
+  const spansYears = Math.floor(indexes[0] / 4) !== Math.floor(indexes[indexes.length - 1] / 4);
+  const quarters = indexes.map(index => {
+    const year = Math.floor(index / 4);
+    const quarter = `Q${(index % 4) + 1}` as QuarterKey;
+    return {
+      key: `${year}-${quarter}`,
+      quarter,
+      year,
+      label: spansYears ? `${quarter} ${year}` : quarter,
+      visits: groups.get(index)!
+    };
+  });
+  return { quarters, undated };
+}
+
+export function getTotalDays(destination: TravelDestination): number {
+  return (destination.visits ?? []).reduce((sum, v) => sum + v.days, 0);
+}
+
+// e.g. "Mar 3 – 7", "Mar 30 – Apr 2" or "Mar 3"
+export function formatVisitRange(visit: Visit): string {
+  const start = new Date(visit.startTimestamp);
+  const end = new Date(visit.endTimestamp);
+  const month = (d: Date) => d.toLocaleString('default', { month: 'short' });
+  if (visit.days === 1) return `${month(start)} ${start.getDate()}`;
+  if (start.getMonth() === end.getMonth()) return `${month(start)} ${start.getDate()} – ${end.getDate()}`;
+  return `${month(start)} ${start.getDate()} – ${month(end)} ${end.getDate()}`;
+}
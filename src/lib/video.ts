@@ -0,0 +1,234 @@
+// Capture time, GPS and poster frames for MP4/MOV clips. Videos carry no
+// EXIF; the equivalent lives in QuickTime atoms inside the `moov` box:
+//   mvhd                      creation time (UTC) and duration
+//   udta/©xyz                 ISO 6709 location, written by most Android phones
+//   meta/keys + meta/ilst     com.apple.quicktime.* tags, written by iPhones
+
+export interface VideoMetadata {
+  timestamp?: number; // Unix milliseconds
+  location?: { lat: number; lng: number };
+  durationMs?: number;
+}
+
+interface Box {
+  type: string;
+  offset: number; // Start of the box header
+  start: number; // Start of the payload
+  end: number;
+}
+
+// Seconds from the QuickTime epoch (1904-01-01 UTC) to the Unix epoch
+const QUICKTIME_EPOCH_OFFSET_S = 2082844800;
+
+// moov is usually well under a megabyte; anything this big isn't worth reading
+const MAX_MOOV_SIZE = 32 * 1024 * 1024;
+
+// Middle of the first second or so, which is less often black than frame one
+const POSTER_TIME_S = 0.5;
+const POSTER_MAX_SIZE = 1920;
+const POSTER_QUALITY = 0.85;
+// iOS Safari may never load a clip without a gesture, and a clip nothing can
+// decode may never error either; give up on it after this long
+const VIDEO_LOAD_TIMEOUT_MS = 15_000;
+
+const readType = (view: DataView, offset: number) =>
+  String.fromCharCode(...[0, 1, 2, 3].map(i => view.getUint8(offset + i)));
+
+const decodeText = (view: DataView, start: number, end: number) =>
+  new TextDecoder().decode(new Uint8Array(view.buffer, view.byteOffset + start, end - start));
+
+function readBoxes(view: DataView, start: number, end: number): Box[] {
+  const boxes: Box[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset);
+    let headerSize = 8;
+    if (size === 1) {
+      size = Number(view.getBigUint64(offset + 8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerSize || offset + size > end) break;
+    boxes.push({ type: readType(view, offset + 4), offset, start: offset + headerSize, end: offset + size });
+    offset += size;
+  }
+  return boxes;
+}
+
+const findBox = (boxes: Box[], type: string) => boxes.find(box => box.type === type);
+
+// Walks the top-level boxes by their headers alone, so a multi-gigabyte mdat
+// before the moov is skipped rather than read
+async function readMoov(file: Blob): Promise<DataView | null> {
+  let offset = 0;
+  while (offset + 8 <= file.size) {
+    const header = new DataView(await file.slice(offset, offset + 16).arrayBuffer());
+    let size = header.getUint32(0);
+    if (size === 1 && header.byteLength >= 16) size = Number(header.getBigUint64(8));
+    else if (size === 0) size = file.size - offset;
+    if (size < 8) return null;
+
+    if (readType(header, 4) === 'moov') {
+      if (size > MAX_MOOV_SIZE) return null;
+      return new DataView(await file.slice(offset, offset + size).arrayBuffer());
+    }
+    offset += size;
+  }
+  return null;
+}
+
+// "+48.8584+002.2945+035.000/" and similar
+export function parseIso6709(value: string): { lat: number; lng: number } | null {
+  const match = value.match(/([+-]\d+(?:\.\d+)?)([+-]\d+(?:\.\d+)?)/);
+  if (!match) return null;
+  const lat = parseFloat(match[1]);
+  const lng = parseFloat(match[2]);
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180 || (lat === 0 && lng === 0)) return null;
+  return { lat, lng };
+}
+
+// Apple writes "2024-05-03T14:22:31+0200"; add the colon Date.parse expects
+const parseAppleDate = (value: string) => {
+  const time = Date.parse(value.trim().replace(/([+-]\d{2})(\d{2})$/, '$1:$2'));
+  return Number.isNaN(time) ? undefined : time;
+};
+
+function readMovieHeader(view: DataView, mvhd: Box): Pick<VideoMetadata, 'timestamp' | 'durationMs'> {
+  const version = view.getUint8(mvhd.start);
+  const creation = version === 1 ? Number(view.getBigUint64(mvhd.start + 4)) : view.getUint32(mvhd.start + 4);
+  const timescale = view.getUint32(mvhd.start + (version === 1 ? 20 : 12));
+  const duration = version === 1 ? Number(view.getBigUint64(mvhd.start + 24)) : view.getUint32(mvhd.start + 16);
+
+  // Cameras without a clock write zero, which lands in 1904
+  const unixSeconds = creation - QUICKTIME_EPOCH_OFFSET_S;
+  return {
+    timestamp: unixSeconds > 0 ? unixSeconds * 1000 : undefined,
+    durationMs: timescale > 0 ? Math.round((duration / timescale) * 1000) : undefined
+  };
+}
+
+// udta/©xyz: 16-bit length, 16-bit language code, then the string
+function readXyz(view: DataView, xyz: Box) {
+  const length = view.getUint16(xyz.start);
+  return parseIso6709(decodeText(view, xyz.start + 4, Math.min(xyz.start + 4 + length, xyz.end)));
+}
+
+// Tag names from `keys`, matched to values in `ilst` by 1-based index
+function readAppleTags(view: DataView, meta: Box): Map<string, string> {
+  const tags = new Map<string, string>();
+  // QuickTime's meta is a plain container; the ISO flavour has version and flags first
+  const childStart = readType(view, meta.start + 4) === 'hdlr' ? meta.start : meta.start + 4;
+  const children = readBoxes(view, childStart, meta.end);
+  const keys = findBox(children, 'keys');
+  const ilst = findBox(children, 'ilst');
+  if (!keys || !ilst) return tags;
+
+  const names: string[] = [];
+  const count = view.getUint32(keys.start + 4);
+  let offset = keys.start + 8;
+  for (let i = 0; i < count && offset + 8 <= keys.end; i++) {
+    const size = view.getUint32(offset);
+    if (size < 8) break;
+    names.push(decodeText(view, offset + 8, offset + size));
+    offset += size;
+  }
+
+  readBoxes(view, ilst.start, ilst.end).forEach(item => {
+    const name = names[view.getUint32(item.offset + 4) - 1];
+    const data = findBox(readBoxes(view, item.start, item.end), 'data');
+    // Type indicator 1 is UTF-8 text; skip it and the locale
+    if (name && data && view.getUint32(data.start) === 1) {
+      tags.set(name, decodeText(view, data.start + 8, data.end));
+    }
+  });
+  return tags;
+}
+
+export async function readVideoMetadata(file: Blob): Promise<VideoMetadata> {
+  const view = await readMoov(file);
+  if (!view) return {};
+
+  const moov = readBoxes(view, 8, view.byteLength);
+  const mvhd = findBox(moov, 'mvhd');
+  const metadata: VideoMetadata = mvhd ? readMovieHeader(view, mvhd) : {};
+
+  const udta = findBox(moov, 'udta');
+  const xyz = udta && findBox(readBoxes(view, udta.start, udta.end), '©xyz');
+  const location = xyz ? readXyz(view, xyz) : null;
+  if (location) metadata.location = location;
+
+  // Apple's tags are in local time with an offset, so they win over mvhd
+  const meta = findBox(moov, 'meta');
+  if (meta) {
+    const tags = readAppleTags(view, meta);
+    const created = tags.get('com.apple.quicktime.creationdate');
+    const timestamp = created ? parseAppleDate(created) : undefined;
+    if (timestamp) metadata.timestamp = timestamp;
+    const iso6709 = tags.get('com.apple.quicktime.location.ISO6709');
+    const appleLocation = iso6709 ? parseIso6709(iso6709) : null;
+    if (!metadata.location && appleLocation) metadata.location = appleLocation;
+  }
+
+  return metadata;
+}
+
+const waitFor = (video: HTMLVideoElement, event: string, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const settle = (fn: () => void) => {
+      clearTimeout(timer);
+      video.removeEventListener(event, handleEvent);
+      video.removeEventListener('error', handleError);
+      signal?.removeEventListener('abort', handleAbort);
+      fn();
+    };
+    const handleEvent = () => settle(resolve);
+    const handleError = () => settle(() => reject(video.error ?? new Error('Video could not be decoded')));
+    const handleAbort = () => settle(() => reject(signal!.reason));
+    const timer = setTimeout(
+      () => settle(() => reject(new Error(`Video didn't fire ${event} within ${VIDEO_LOAD_TIMEOUT_MS} ms`))),
+      VIDEO_LOAD_TIMEOUT_MS
+    );
+    if (signal?.aborted) return handleAbort();
+    video.addEventListener(event, handleEvent, { once: true });
+    video.addEventListener('error', handleError, { once: true });
+    signal?.addEventListener('abort', handleAbort, { once: true });
+  });
+
+// Grabs a still to stand in for the clip while tagging and in stamps.
+// Rejects when the browser can't decode the clip (e.g. HEVC on some desktops),
+// can't load it in time, or `signal` aborts.
+export async function captureVideoPoster(file: File, { signal }: { signal?: AbortSignal } = {}): Promise<{ poster: Blob; durationMs: number }> {
+  const url = URL.createObjectURL(file);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+
+  try {
+    const loaded = waitFor(video, 'loadeddata', signal);
+    video.src = url;
+    await loaded;
+
+    const seeked = waitFor(video, 'seeked', signal);
+    video.currentTime = Math.min(POSTER_TIME_S, video.duration / 2 || 0);
+    await seeked;
+
+    const scale = Math.min(1, POSTER_MAX_SIZE / Math.max(video.videoWidth, video.videoHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(video.videoWidth * scale);
+    canvas.height = Math.round(video.videoHeight * scale);
+    canvas.getContext('2d')!.drawImage(video, 0, 0, canvas.width, canvas.height);
+    const poster = await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('JPEG encoding failed')), 'image/jpeg', POSTER_QUALITY);
+    });
+
+    // Streams without a duration in their header report Infinity
+    const durationMs = Number.isFinite(video.duration) ? Math.round(video.duration * 1000) : 0;
+    return { poster, durationMs };
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+}
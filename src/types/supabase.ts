@@ -0,0 +1,49 @@
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+      recaps: {
+        Row: {
+          id: string
+          published_at: string
+          snapshot: Json
+        }
+        Insert: {
+          id: string
+          published_at?: string
+          snapshot: Json
+        }
+        Update: {
+          id?: string
+          published_at?: string
+          snapshot?: Json
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      get_recap: {
+        Args: {
+          recap_id: string
+        }
+        Returns: Json
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
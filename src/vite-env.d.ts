@@ -1 +1,10 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_GEOCODER_PROVIDER?: 'offline' | 'nominatim' | 'mock';
+  readonly VITE_GEOCODER_NETWORK_FALLBACK?: string;
+  readonly VITE_NOMINATIM_URL?: string;
+  readonly VITE_RECAP_STORAGE?: 'local' | 'supabase';
+  readonly VITE_SUPABASE_URL?: string;
+  readonly VITE_SUPABASE_ANON_KEY?: string;
+}
@@ -0,0 +1,26 @@
+-- Published recaps for the read-only /r/:recapId viewer.
+-- Recaps are anonymous and immutable: anyone can publish or read one by id,
+-- nobody can list, update or delete them through the API.
+
+create table public.recaps (
+  id text primary key,
+  snapshot jsonb not null,
+  published_at timestamptz not null default now()
+);
+
+alter table public.recaps enable row level security;
+
+create policy "Recaps are readable by id"
+  on public.recaps for select
+  using (true);
+
+create policy "Anyone can publish a recap"
+  on public.recaps for insert
+  with check (true);
+
+insert into storage.buckets (id, name, public)
+values ('recap-images', 'recap-images', true);
+
+create policy "Anyone can upload recap images"
+  on storage.objects for insert
+  with check (bucket_id = 'recap-images');
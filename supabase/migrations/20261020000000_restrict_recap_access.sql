@@ -0,0 +1,36 @@
+-- Recaps can only be read by id. The select policy in the previous migration
+-- let anyone with the anon key list every published recap, so reads now go
+-- through get_recap() and the table itself is no longer selectable.
+
+drop policy "Recaps are readable by id" on public.recaps;
+revoke select on public.recaps from anon, authenticated;
+
+create function public.get_recap(recap_id text)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select snapshot from public.recaps where id = recap_id;
+$$;
+
+revoke execute on function public.get_recap(text) from public;
+grant execute on function public.get_recap(text) to anon, authenticated;
+
+-- Uploads are limited to reasonably sized images, in a folder named like a
+-- recap id. Slide renditions are well under a megabyte; the cap leaves room
+-- for originals the browser couldn't downscale.
+update storage.buckets
+set file_size_limit = 15 * 1024 * 1024,
+    allowed_mime_types = array['image/*']
+where id = 'recap-images';
+
+drop policy "Anyone can upload recap images" on storage.objects;
+
+create policy "Anyone can upload recap images"
+  on storage.objects for insert
+  with check (
+    bucket_id = 'recap-images'
+    and (storage.foldername(name))[1] ~ '^[a-z0-9]{12}$'
+  );
@@ -0,0 +1,13 @@
+-- Publishing stays anonymous, but only rows the app could have written: an id
+-- in the same format as the image folders (see createRecapId) and a snapshot
+-- of reasonable size. Snapshots hold text and image keys, not the images,
+-- so even a long recap is well under the cap.
+
+drop policy "Anyone can publish a recap" on public.recaps;
+
+create policy "Anyone can publish a recap"
+  on public.recaps for insert
+  with check (
+    id ~ '^[a-z0-9]{12}$'
+    and pg_column_size(snapshot) < 1024 * 1024
+  );